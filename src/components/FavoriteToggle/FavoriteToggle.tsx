@@ -0,0 +1,42 @@
+import { Star } from "lucide-react"
+
+import { cn } from "@/lib/utils"
+
+export interface FavoriteToggleProps {
+  favorite: boolean
+  onToggle: () => void
+  label: string
+}
+
+/**
+ * Star at the end of an option row. Shown on hover and on the highlighted row,
+ * and always once the option is a favourite.
+ */
+export function FavoriteToggle({
+  favorite,
+  onToggle,
+  label,
+}: FavoriteToggleProps) {
+  return (
+    <button
+      type="button"
+      tabIndex={-1}
+      aria-label={label}
+      aria-pressed={favorite}
+      className={cn(
+        "text-muted-foreground ms-auto h-4 w-4 shrink-0",
+        favorite
+          ? "text-yellow-500"
+          : "opacity-0 group-hover:opacity-100 group-data-[selected=true]:opacity-100"
+      )}
+      // Keep focus in the search input, like the rows themselves
+      onPointerDown={(e) => e.preventDefault()}
+      onClick={(e) => {
+        e.stopPropagation()
+        onToggle()
+      }}
+    >
+      <Star className={cn("h-4 w-4", favorite && "fill-current")} />
+    </button>
+  )
+}
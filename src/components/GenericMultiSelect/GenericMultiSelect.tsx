@@ -4,14 +4,41 @@ import { cva, type VariantProps } from "class-variance-authority"
 import {
   CheckIcon,
   ChevronDown,
+  ChevronRight,
   Loader2,
+  MinusIcon,
+  Plus,
   WandSparkles,
   XCircle,
   XIcon,
 } from "lucide-react"
 
 import { cn } from "@/lib/utils"
-import { useDebounce } from "../../utils/index"
+import {
+  composeRefs,
+  getErrorMessage,
+  getGroupLabel,
+  groupOptions,
+  useCreateOption,
+  useFormReset,
+  useGenericSelect,
+  useOptionTree,
+  usePresentation,
+  useRecentOptions,
+  useSelectLocale,
+  useSortable,
+  useVirtualList,
+  type Direction,
+  type DrawerComponents,
+  type FilterOption,
+  type GroupBy,
+  type GroupOrder,
+  type LoadMoreThreshold,
+  type LoadOptions,
+  type OptionStorage,
+  type Presentation,
+  type SelectMessages,
+} from "../../utils/index"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
 import {
@@ -24,12 +51,17 @@ import {
 } from "@/components/ui/command"
 import {
   Popover,
+  PopoverAnchor,
   PopoverContent,
   PopoverTrigger,
 } from "@/components/ui/popover"
 import { Separator } from "@/components/ui/separator"
 
 import { Input } from "@/components/ui/input"
+import { FavoriteToggle } from "../FavoriteToggle"
+import { HighlightMatch } from "../HighlightMatch"
+import { SelectFormInputs } from "../SelectFormInputs"
+import type { OptionRenderState } from "../../types"
 
 const multiSelectVariants = cva(
   "m-1 transition delay-150 duration-300 ease-in-out hover:-translate-y-1 hover:scale-110",
@@ -51,21 +83,123 @@ const multiSelectVariants = cva(
   }
 )
 
-export interface GenericMultiSelectProps<T extends Record<string, any>>
-  extends Omit<
+// Separators of the values in text pasted into the inline input
+const PASTE_SEPARATORS = /[,;\n]/
+
+/**
+ * `valueMode="key"` (the default) emits the selected options' `valueKey`,
+ * `valueMode="object"` the options themselves.
+ */
+export type GenericMultiSelectValueProps<
+  T extends Record<string, any>,
+  K extends keyof T
+> =
+  | {
+      valueMode?: "key"
+      /**
+       * Controlled selection. Accepts either the selected keys or the full
+       * option objects; keys that are not in the current `options` page are
+       * resolved against previously seen selections.
+       */
+      value?: T[K][] | T[]
+      onValueChange: (value: T[K][]) => void
+    }
+  | {
+      valueMode: "object"
+      value?: T[]
+      onValueChange: (value: T[]) => void
+    }
+
+export interface GenericMultiSelectBaseProps<
+  T extends Record<string, any>,
+  K extends keyof T = keyof T
+> extends Omit<
       React.ButtonHTMLAttributes<HTMLButtonElement>,
-      "onChange" | "defaultValue"
+      "onChange" | "defaultValue" | "value" | "dir" | "inputMode"
     >,
     VariantProps<typeof multiSelectVariants> {
-  options: T[]
-  valueKey: keyof T
+  options?: T[]
+  valueKey: K
   getOptionLabel: (option: T) => string
   placeholder?: string
-  onValueChange: (value: T[keyof T][]) => void
+  /**
+   * Whether two options are the same, for composite keys or ids that arrive as
+   * strings (`(a, b) => String(a.id) === String(b.id)`). Defaults to comparing
+   * `valueKey` with `===`.
+   */
+  isOptionEqual?: (a: T, b: T) => boolean
   setAlternativeValue?: (value?: T[]) => void
   defaultValue?: T[]
   animation?: number
+  /**
+   * Lists the selected options at the top of the "All" view. The order is
+   * settled when the popover opens, so rows do not move while being checked.
+   * Not applied in tree mode.
+   */
+  pinSelected?: boolean
+  /**
+   * "inline" replaces the trigger button with a field holding the badges and a
+   * text input, which searches in place of the popover's search box. Enter, or
+   * a comma after some text, commits the highlighted option. The forwarded ref
+   * then points at the input. The drawer presentation always uses the button.
+   */
+  inputMode?: "button" | "inline"
+  /**
+   * Where the list opens: a popover below the trigger, or a full-height bottom
+   * drawer with Done and Clear actions. "auto" uses the drawer on small
+   * screens. Defaults to "popover". The drawer needs `drawerComponents`.
+   */
+  presentation?: Presentation
+  /** The shadcn drawer parts, for `presentation` "drawer" or "auto". */
+  drawerComponents?: DrawerComponents
+  /**
+   * Lists recent and favourite options at the top of the "All" view while
+   * there is no search text, remembered under this key. Options are stored
+   * whole, so they must survive `JSON.stringify`.
+   */
+  storageKey?: string
+  /** Where `storageKey` is kept. Defaults to `localStorage`. */
+  storage?: OptionStorage
+  /** Number of recent options listed besides the favourites. Defaults to 5. */
+  recentLimit?: number
+  /**
+   * Resolves pasted text such as "a, b, c" to options in inline mode. By
+   * default the text is split on commas, semicolons and line breaks and every
+   * part is matched against the labels of the known options; parts without a
+   * match stay in the input.
+   */
+  parseValue?: (text: string) => T[] | Promise<T[]>
+  /** Number of badges shown before they collapse into "+ N more". */
   maxCount?: number
+  /**
+   * Badges can be reordered by dragging them, or from the focused trigger with
+   * ArrowLeft/ArrowRight to pick a badge and Shift+ArrowLeft/ArrowRight to move
+   * it. The value is emitted in the new order.
+   */
+  sortable?: boolean
+  /**
+   * "onApply" edits a draft while the popover is open and calls
+   * `onValueChange` only from the Apply button; Cancel or closing the popover
+   * otherwise discards the changes. Defaults to "immediate".
+   */
+  commitMode?: "immediate" | "onApply"
+  /** Adds an "Invert selection" action for the options in the list. */
+  invertible?: boolean
+  /**
+   * Returns the values of every option matching the search, loaded or not,
+   * for a "Select all matching" action. Values that are not loaded yet go
+   * through `resolveValue` first; without it they are selected by key, labelled
+   * with the key, which `valueMode="object"` reports as an error.
+   */
+  getAllMatchingValues?: (search: string) => T[K][] | Promise<T[K][]>
+  /** Upper bound on the selection; further options are disabled once it is reached. */
+  maxSelected?: number
+  /** Lower bound on the selection; removals that would go below it are undone. */
+  minSelected?: number
+  /** Called when an action was cut short by `maxSelected` or `minSelected`. */
+  onLimitReached?: (limit: "max" | "min", count: number) => void
+  /** Returns an error message for the current selection, shown inside the popover. */
+  validate?: (selected: T[]) => string | null
   modalPopover?: boolean
   asChild?: boolean
   className?: string
@@ -73,21 +207,138 @@ export interface GenericMultiSelectProps<T extends Record<string, any>>
   hasNextPage?: boolean
   isFetchingNextPage?: boolean
   onSearchChange?: (searchTerm: string) => void
+  /**
+   * Fields searched besides the label when there is no server-side search.
+   * Defaults to `[valueKey]`.
+   */
+  searchKeys?: (keyof T)[]
+  /**
+   * Replaces the built-in fuzzy search. Return false or a score; higher scores
+   * are listed first.
+   */
+  filterOption?: FilterOption<T>
+  /**
+   * Built-in async data source. Replaces `options`, `onSearchChange`, `onLoadMore`,
+   * `hasNextPage`, `isFetchingNextPage` and `isLoading` when provided.
+   */
+  loadOptions?: LoadOptions<T>
+  /**
+   * Whatever else `loadOptions` depends on, e.g. the selected department.
+   * When it changes the loaded pages are dropped and fetched again.
+   */
+  loadOptionsKey?: unknown
+  /** Loads the option for a selected value that is not in any page seen so far. */
+  resolveValue?: (value: T[K]) => Promise<T>
   isLoading?: boolean
+  /** Failure of the initial load, shown in the list with a retry action. */
+  error?: unknown | string
+  /** Failure of a next-page load, shown below the options loaded so far. */
+  nextPageError?: unknown | string
+  /** Called by the retry actions; not needed with `loadOptions`. */
+  onRetry?: () => void
+  /** How far from the bottom of the list the next page starts loading. Defaults to 3 rows. */
+  loadMoreThreshold?: LoadMoreThreshold
+  /** Render only the visible rows; useful once `options` grows into the thousands. */
+  virtualize?: boolean
+  /** Fixed row height in px for `virtualize`. Rows are measured when omitted. */
+  itemHeight?: number
+  /**
+   * Renders one titled group per distinct value, each with its own select-all
+   * toggle. Grouped lists are not virtualized.
+   */
+  groupBy?: GroupBy<T>
+  renderGroupLabel?: (group: string, options: T[]) => React.ReactNode
+  groupOrder?: GroupOrder
+  /** Content of an option row. The checkbox is still rendered before it. */
+  renderOption?: (option: T, state: OptionRenderState) => React.ReactNode
+  /** Replaces the badges in the trigger when something is selected. */
+  renderValue?: (selected: T[]) => React.ReactNode
+  /**
+   * Shows a "Create" item when no option matches the search text exactly. The
+   * created option is cached and added to the selection.
+   */
+  onCreateOption?: (inputValue: string) => T | Promise<T>
+  /**
+   * Replaces a single badge; call `onRemove` to deselect the option. `removable`
+   * is false for disabled and locked options.
+   */
+  renderBadge?: (
+    option: T,
+    helpers: { onRemove: () => void; removable: boolean }
+  ) => React.ReactNode
+  /** Options that are shown but cannot be selected or deselected. */
+  isOptionDisabled?: (option: T) => boolean
+  /** Selected options that cannot be removed through the badge or clear icons. */
+  isOptionLocked?: (option: T) => boolean
+  /**
+   * Turns the list into a tree of nested options. Selecting a node selects
+   * everything below it. Tree lists ignore `groupBy`.
+   */
+  getChildren?: (option: T) => T[] | undefined
+  /** Tree mode for flat `options` that reference their parent's value. */
+  parentKey?: keyof T
+  /** Loads the children of a tree node when it is first expanded. */
+  loadChildren?: (option: T) => Promise<T[]>
+  /** Whether a node whose children are not loaded yet can be expanded. Defaults to true. */
+  hasChildren?: (option: T) => boolean
+  /**
+   * Whether fully selected parents are part of the value, next to their
+   * descendants. When false only nodes without children are emitted. Defaults
+   * to true.
+   */
+  includeParentValues?: boolean
+  /** Overrides the built-in strings; defaults come from `GenericSelectProvider`. */
+  messages?: Partial<SelectMessages>
+  /** Locale for plural rules and numbers in `messages`. */
+  locale?: string
+  /** Mirrors the badges, icons and list for right-to-left languages. */
+  dir?: Direction
+  /**
+   * Submits one entry per selected value under this name with native forms and
+   * `FormData`.
+   */
+  name?: string
+  /** Blocks native form submission while nothing is selected. */
+  required?: boolean
 }
 
+export type GenericMultiSelectProps<
+  T extends Record<string, any>,
+  K extends keyof T = keyof T
+> = GenericMultiSelectBaseProps<T, K> & GenericMultiSelectValueProps<T, K>
+
+// forwardRef drops the type parameters, so the cast at the end restores them
 export const GenericMultiSelect = React.forwardRef(
-  <T extends Record<string, any>>(
+  <T extends Record<string, any>, K extends keyof T = keyof T>(
     {
-      options,
+      options: optionsProp,
       valueKey,
       getOptionLabel,
-      placeholder = "Select options",
+      placeholder,
+      valueMode = "key",
+      value,
       onValueChange,
+      isOptionEqual,
       setAlternativeValue,
       defaultValue = [],
       animation = 0,
       maxCount = 3,
+      pinSelected = false,
+      inputMode = "button",
+      parseValue,
+      presentation,
+      drawerComponents,
+      commitMode = "immediate",
+      invertible = false,
+      getAllMatchingValues,
+      storageKey,
+      storage,
+      recentLimit,
+      sortable = false,
+      maxSelected,
+      minSelected,
+      onLimitReached,
+      validate,
       modalPopover = false,
       asChild = false,
       className,
@@ -96,294 +347,1445 @@ export const GenericMultiSelect = React.forwardRef(
       hasNextPage,
       isFetchingNextPage,
       onSearchChange,
+      searchKeys,
+      filterOption,
+      loadOptions,
+      loadOptionsKey,
+      resolveValue,
       isLoading,
+      error,
+      nextPageError,
+      onRetry,
+      loadMoreThreshold,
+      virtualize,
+      itemHeight,
+      groupBy,
+      renderGroupLabel,
+      groupOrder,
+      renderOption,
+      renderValue,
+      renderBadge,
+      onCreateOption,
+      isOptionDisabled,
+      isOptionLocked,
+      getChildren,
+      parentKey,
+      loadChildren,
+      hasChildren,
+      includeParentValues = true,
+      messages,
+      locale,
+      dir,
+      name,
+      required,
       ...props
-    }: GenericMultiSelectProps<T>,
-    ref: React.Ref<HTMLButtonElement>
+    }: GenericMultiSelectProps<T, K>,
+    // The trigger button, or the text input of `inputMode="inline"`
+    ref: React.Ref<HTMLButtonElement | HTMLInputElement>
   ) => {
-    const [selectedOptions, setSelectedOptions] = useState<T[]>(defaultValue)
-
-    
-    const [isPopoverOpen, setIsPopoverOpen] = useState(false)
+    const i18n = useSelectLocale({ messages, locale, dir })
+    // The props union pairs onValueChange with valueMode
+    const emitValue = onValueChange as (value: T[] | T[K][]) => void
+    const [announcement, setAnnouncement] = useState("")
     const [isAnimating, setIsAnimating] = useState(false)
-    const scrollRef = useRef<HTMLDivElement>(null)
+    const [isInvalid, setIsInvalid] = useState(false)
+    const [view, setView] = useState<"all" | "selected">("all")
+    const [pinnedOptions, setPinnedOptions] = useState<T[]>([])
+    // Badge picked for keyboard reordering
+    const [activeBadge, setActiveBadge] = useState<number | null>(null)
+    const triggerRef = useRef<HTMLButtonElement>(null)
     const inputRef = useRef<HTMLInputElement>(null)
-    const [localSearch, setLocalSearch] = useState("")
-    const debouncedSearch = useDebounce(localSearch, 300)
-    const isFetchingNextPageRef = useRef<boolean | undefined>(isFetchingNextPage)
-
-    useEffect(() => {
-      isFetchingNextPageRef.current = isFetchingNextPage
-    }, [isFetchingNextPage])
+    const fieldRef = useRef<HTMLDivElement>(null)
+    const inlineInputRef = useRef<HTMLInputElement>(null)
+    const drawer =
+      usePresentation(presentation) === "drawer" ? drawerComponents : undefined
+    const isDrawer = !!drawer
+    // The drawer covers the field, so it keeps its own search box instead
+    const isInline = inputMode === "inline" && !isDrawer
+    // The inline field has no button; its input stands in for the trigger
+    const controlRef = isInline ? inlineInputRef : triggerRef
 
+    const select = useGenericSelect({
+      options: optionsProp,
+      valueKey,
+      getOptionLabel,
+      multiple: true,
+      value,
+      defaultValue,
+      commitMode,
+      onSelectionChange: (selected) => {
+        recents.remember(
+          selected.filter(
+            (option) =>
+              select.isResolved(option) &&
+              !includesOption(select.committedOptions, option)
+          )
+        )
+        emitValue(
+          valueMode === "object" ? selected : selected.map((o) => o[valueKey])
+        )
+        setAlternativeValue?.(selected.filter(select.isResolved))
+      },
+      isOptionEqual,
+      isOptionDisabled,
+      getChildren,
+      onSearchChange,
+      searchKeys,
+      filterOption,
+      loadOptions,
+      loadOptionsKey,
+      resolveValue,
+      onLoadMore,
+      hasNextPage,
+      isFetchingNextPage,
+      isLoading,
+      error,
+      nextPageError,
+      onRetry,
+      loadMoreThreshold,
+    })
     // Change 2: Separate derived selected values
-    const selectedValues = selectedOptions.map((option) => option[valueKey])
+    const {
+      options,
+      filteredOptions: visibleOptions,
+      selectedOptions,
+      selectedValues,
+      serverSearch,
+      debouncedSearch,
+      optionCache,
+    } = select
+    const isPopoverOpen = select.isOpen
 
-    useEffect(() => {
-      if (!isPopoverOpen) {
-        setLocalSearch("")
+    const recents = useRecentOptions({
+      storageKey,
+      storage,
+      isOptionEqual: select.isOptionEqual,
+      limit: recentLimit,
+    })
+    optionCache.remember(recents.options)
+    const includesOption = (list: T[], option: T) =>
+      list.some((o) => select.isOptionEqual(o, option))
+
+    // A form reset restores `defaultValue`, bypassing the selection limits
+    useFormReset(controlRef, () => select.setSelection(defaultValue), props.form)
+
+    const tree = useOptionTree({
+      options,
+      valueKey,
+      getChildren,
+      parentKey,
+      loadChildren,
+      hasChildren,
+      isOptionEqual: select.isOptionEqual,
+      onChildrenLoaded: (parent, children) => {
+        optionCache.remember(children)
+        // A selected parent stands for its whole subtree, new children included
+        if (select.isSelected(parent)) {
+          commitSelection([
+            ...selectedOptions,
+            ...children.filter(
+              (child) => !isDisabled(child) && !select.isSelected(child)
+            ),
+          ])
+        }
+      },
+    })
+
+    // Every user action goes through commitSelection, so the limits are enforced
+    // here: additions past maxSelected are dropped, and removals below
+    // minSelected are put back in their original order
+    const applyLimits = (newSelected: T[]) => {
+      if (maxSelected !== undefined && newSelected.length > maxSelected) {
+        const isKept = (o: T) => select.isSelected(o)
+        let room = maxSelected - newSelected.filter(isKept).length
+        const limited = newSelected.filter((o) => isKept(o) || room-- > 0)
+        if (limited.length < newSelected.length) {
+          onLimitReached?.("max", maxSelected)
+        }
+        return limited
       }
-    }, [isPopoverOpen])
 
-    useEffect(() => {
-      if (onSearchChange) {
-        onSearchChange(debouncedSearch)
+      if (
+        minSelected !== undefined &&
+        newSelected.length < minSelected &&
+        newSelected.length < selectedOptions.length
+      ) {
+        const restored = selectedOptions
+          .filter((o) => !includesOption(newSelected, o))
+          .slice(0, minSelected - newSelected.length)
+        onLimitReached?.("min", minSelected)
+        return selectedOptions.filter(
+          (o) => includesOption(newSelected, o) || restored.includes(o)
+        )
       }
-    }, [debouncedSearch, onSearchChange])
+
+      return newSelected
+    }
 
     // const [searchParams, setSearchParams] = useSearchParams()
 
+    const commitSelection = (requested: T[]) => {
+      select.setSelection(
+        applyLimits(
+          tree.enabled
+            ? tree.normalizeSelection(requested, includeParentValues)
+            : requested
+        )
+      )
+    }
+
+    // Disabled options cannot be toggled from the list, and neither they nor
+    // locked options are removed by the badge, clear or select-all actions.
+    // Keys that are not resolved yet skip the option callbacks and stay
+    // removable.
+    const isDisabled = (option: T) =>
+      select.isResolved(option) && !!isOptionDisabled?.(option)
+    const canDeselect = (option: T) =>
+      !isDisabled(option) &&
+      !(select.isResolved(option) && isOptionLocked?.(option))
+
+    const isAtMax =
+      maxSelected !== undefined && selectedOptions.length >= maxSelected
+    const validationMessage =
+      validate?.(selectedOptions.filter(select.isResolved)) ?? null
+
+    // In a tree, a node toggles together with everything below it; the parents
+    // of the branch are then settled by normalizeSelection. A branch whose
+    // selectable leaves are all selected counts as checked, even when disabled
+    // leaves keep its parent from being checked.
+    const toggleBranch = (option: T) => {
+      const branch = [option, ...tree.getDescendants(option)]
+      const selectableLeaves = branch.filter(
+        (node) => !tree.getChildren(node)?.length && !isDisabled(node)
+      )
+      if (
+        tree.getCheckState(option, select.isSelected) === "checked" ||
+        selectableLeaves.every(select.isSelected)
+      ) {
+        const removed = branch.filter(canDeselect)
+        commitSelection(
+          selectedOptions.filter((o) => !includesOption(removed, o))
+        )
+      } else {
+        commitSelection([
+          ...selectedOptions,
+          ...branch.filter(
+            (node) => !isDisabled(node) && !select.isSelected(node)
+          ),
+        ])
+      }
+    }
+
     // Change 3: Update toggle functions to manage selectedOptions
     const toggleOption = (option: T) => {
-      const newSelected = selectedOptions.some(
-        (o) => o[valueKey] === option[valueKey]
-      )
-        ? selectedOptions.filter((o) => o[valueKey] !== option[valueKey])
+      if (tree.enabled && select.isResolved(option)) {
+        toggleBranch(option)
+        return
+      }
+
+      const isSelected = select.isSelected(option)
+      if (isSelected ? !canDeselect(option) : isDisabled(option)) return
+
+      const newSelected = isSelected
+        ? selectedOptions.filter((o) => !select.isOptionEqual(o, option))
         : [...selectedOptions, option]
-      setSelectedOptions(newSelected)
-      onValueChange(newSelected.map((o) => o[valueKey]))
-      setAlternativeValue?.(newSelected)
+      commitSelection(newSelected)
     }
 
     const handleClear = () => {
-      setSelectedOptions([])
-      onValueChange([])
-      setAlternativeValue?.([])
+      commitSelection(selectedOptions.filter((o) => !canDeselect(o)))
     }
 
     const clearExtraOptions = () => {
-      const newSelected = selectedOptions.slice(0, maxCount)
-      setSelectedOptions(newSelected)
-      onValueChange(newSelected.map((o) => o[valueKey]))
-      setAlternativeValue?.(newSelected)
+      commitSelection(
+        selectedOptions.filter(
+          (o, index) => index < maxCount || !canDeselect(o)
+        )
+      )
+    }
+
+    const isAllSelected = (members: T[]) => {
+      const selectable = members.filter((option) => !isDisabled(option))
+      return (
+        selectable.length > 0 &&
+        selectable.every((option) => select.isSelected(option))
+      )
+    }
+
+    const toggleMany = (members: T[]) => {
+      if (isAllSelected(members)) {
+        commitSelection(
+          selectedOptions.filter(
+            (o) => !includesOption(members, o) || !canDeselect(o)
+          )
+        )
+      } else {
+        commitSelection([
+          ...selectedOptions,
+          ...members.filter(
+            (option) =>
+              !isDisabled(option) && !select.isSelected(option)
+          ),
+        ])
+      }
+    }
+
+    useEffect(() => {
+      if (!isPopoverOpen) return
+
+      setView("all")
+      setPinnedOptions(pinSelected ? selectedOptions : [])
+    }, [isPopoverOpen])
+
+    // The "Selected" view lists the selection itself, so it includes options
+    // from pages that are not loaded
+    const isSelectedView = view === "selected"
+    // Fresher copies from the current options win over the stored ones
+    const recentOptions =
+      isSelectedView || select.search.trim()
+        ? []
+        : recents.options.map(
+            (option) => optionCache.getOption(option[valueKey]) ?? option
+          )
+    // The same option can also be listed below the recent section
+    const getRecentItemValue = (option: T) =>
+      `recent ${select.getItemValue(option)}`
+    const showTree = tree.enabled && !isSelectedView
+
+    // A tree lists the matching nodes with their ancestors while searching
+    const isSearching = !serverSearch && debouncedSearch.trim() !== ""
+    const treeMatches =
+      showTree && isSearching ? select.matchOptions(tree.nodes) : undefined
+    const treeRows = showTree ? tree.getRows(treeMatches) : []
+    const listedOptions = isSelectedView
+      ? select.matchOptions(selectedOptions)
+      : showTree
+        ? treeRows.map((row) => row.option)
+        : pinnedOptions.length > 0
+          ? [
+              ...select.matchOptions(pinnedOptions),
+              ...visibleOptions.filter(
+                (option) => !includesOption(pinnedOptions, option)
+              ),
+            ]
+          : visibleOptions
+
+    // While searching, select all applies to the matching options only, in a
+    // tree together with everything below them
+    const selectAllMembers = !showTree
+      ? visibleOptions
+      : treeMatches
+        ? Array.from(
+            new Map(
+              treeMatches
+                .flatMap((match) => [match, ...tree.getDescendants(match)])
+                .map((node) => [node[valueKey], node])
+            ).values()
+          )
+        : tree.nodes
+
+    // Flips the options in the list; selected options outside of it stay. In a
+    // tree only the nodes without children flip, and their parents follow.
+    const invertSelection = () => {
+      const members = tree.enabled
+        ? selectAllMembers.filter((node) => !tree.getChildren(node)?.length)
+        : selectAllMembers
+      commitSelection([
+        ...selectedOptions.filter(
+          (o) => !includesOption(members, o) || !canDeselect(o)
+        ),
+        ...members.filter(
+          (option) => !isDisabled(option) && !select.isSelected(option)
+        ),
+      ])
+    }
+
+    const [matchingStatus, setMatchingStatus] = useState<
+      "idle" | "pending" | "error"
+    >("idle")
+
+    useEffect(() => {
+      setMatchingStatus((current) => (current === "error" ? "idle" : current))
+    }, [select.search])
+
+    const selectAllMatching = async () => {
+      if (!getAllMatchingValues || matchingStatus === "pending") return
+
+      setMatchingStatus("pending")
+      try {
+        const values = await getAllMatchingValues(debouncedSearch.trim())
+        const known = values.flatMap((value) => {
+          const option = optionCache.getOption(value)
+          return option ? [option] : []
+        })
+        const missing = values.filter((value) => !optionCache.getOption(value))
+        // Keys alone are enough to emit keys; whole options need resolveValue
+        if (missing.length > 0 && !resolveValue && valueMode === "object") {
+          throw new Error("resolveValue is needed to select unloaded options")
+        }
+
+        const resolved = resolveValue
+          ? await Promise.all(missing.map((value) => resolveValue(value)))
+          : missing.map(select.toOption)
+        if (resolveValue) optionCache.remember(resolved)
+        const matches = [...known, ...resolved]
+        setMatchingStatus("idle")
+        commitSelection([
+          ...selectedOptions,
+          ...matches.filter(
+            (option) => !isDisabled(option) && !select.isSelected(option)
+          ),
+        ])
+      } catch {
+        setMatchingStatus("error")
+      }
     }
 
     // Change 4: Update toggleAll to use selectedOptions
     const toggleAll = () => {
-      if (selectedOptions.length === options.length) {
+      // Select all reads as deselect all in the "Selected" view
+      if (isSelectedView) {
+        const removed = listedOptions.filter(canDeselect)
+        commitSelection(
+          selectedOptions.filter((o) => !includesOption(removed, o))
+        )
+      } else if (!isSearching && isAllSelected(selectAllMembers)) {
         handleClear()
       } else {
-        setSelectedOptions(options)
-        onValueChange(options.map((o) => o[valueKey]))
-        setAlternativeValue?.(options)
+        toggleMany(selectAllMembers)
       }
     }
 
-    // Infinite scroll effect
+    const isGrouped = !!groupBy && !tree.enabled
+    // The Selected view may list unresolved keys, which go ungrouped
+    const groupOf = (option: T) =>
+      groupBy && select.isResolved(option) ? getGroupLabel(option, groupBy) : ""
+    const isVirtualized = !!virtualize && !isGrouped && isPopoverOpen
+    const virtualList = useVirtualList({
+      count: listedOptions.length,
+      scrollRef: select.listRef,
+      enabled: isVirtualized,
+      itemHeight,
+    })
+
+    // Rows outside the window are not rendered, so bring the first selection into view on open
     useEffect(() => {
-      const timeout = setTimeout(() => {
-        const container = scrollRef.current
-        if (!container || !hasNextPage || !onLoadMore) return
+      if (!isVirtualized || selectedOptions.length === 0) return
 
-        const handleScroll = () => {
-          // Guard: do nothing if there is no next page or a next-page fetch is already in flight
-          if (!hasNextPage || isFetchingNextPageRef.current) return
+      const index = listedOptions.findIndex((option) =>
+        select.isOptionEqual(option, selectedOptions[0])
+      )
+      const timeout = setTimeout(() => virtualList.scrollToIndex(index), 10)
+      return () => clearTimeout(timeout)
+    }, [isVirtualized])
 
-          const { scrollTop, scrollHeight, clientHeight } = container
-          const atBottom = scrollTop + clientHeight >= scrollHeight - 5
+    const creator = useCreateOption({
+      onCreateOption,
+      onCreated: (option: T) => {
+        optionCache.remember([option])
+        commitSelection([...selectedOptions, option])
+        select.setSearch("")
+      },
+    })
 
-          if (atBottom && !isLoading && !isFetchingNextPageRef.current) {
-            onLoadMore()
-          }
+    useEffect(() => {
+      creator.clearError()
+    }, [select.search, creator.clearError])
+
+    const createTerm = select.search.trim()
+    const canCreate =
+      !!onCreateOption &&
+      createTerm.length > 0 &&
+      !options.some(
+        (option) =>
+          select.getLabel(option).toLowerCase() === createTerm.toLowerCase()
+      )
+
+    const errorMessage = select.error
+      ? getErrorMessage(select.error, i18n.t("loadError"))
+      : select.nextPageError
+        ? getErrorMessage(select.nextPageError, i18n.t("loadMoreError"))
+        : null
+
+    // Errors are announced by their role="alert" rows
+    const liveMessage = !isPopoverOpen
+      ? announcement
+      : errorMessage
+        ? ""
+        : select.isLoading || select.isFetchingNextPage
+        ? i18n.t("loading")
+        : i18n.t("resultsAvailable", { count: listedOptions.length })
+
+    // The badges' remove icons live inside the trigger button and cannot take
+    // focus, so Backspace and Delete on the trigger remove the last badge instead
+    const moveSelected = (from: number, to: number) => {
+      const reordered = [...selectedOptions]
+      const [moved] = reordered.splice(from, 1)
+      reordered.splice(to, 0, moved)
+      select.setSelection(reordered)
+    }
+
+    const sortableBadges = useSortable({
+      onMove: moveSelected,
+      enabled: sortable,
+    })
+    // Every badge is shown while one is picked from the keyboard, so it can move
+    // past the "+ N more" badge. Dropping a dragged badge on "+ N more" moves it
+    // to the first hidden position.
+    const visibleBadgeCount =
+      activeBadge !== null ? selectedOptions.length : maxCount
+
+    const renderSortableBadge = (index: number, badge: React.ReactNode) => (
+      <span
+        key={String(selectedOptions[index][valueKey])}
+        {...sortableBadges.getItemProps(index)}
+        className={cn(
+          "inline-flex rounded-md",
+          sortableBadges.dragIndex === index && "opacity-50",
+          (activeBadge === index ||
+            (sortableBadges.overIndex === index &&
+              sortableBadges.dragIndex !== index)) &&
+            "ring-ring ring-2"
+        )}
+      >
+        {badge}
+      </span>
+    )
+
+    const announcePosition = (index: number) => {
+      setAnnouncement(
+        i18n.t("badgePosition", {
+          label: select.getLabel(selectedOptions[index]),
+          position: index + 1,
+          count: selectedOptions.length,
+        })
+      )
+    }
+
+    const handleSortKeyDown = (e: React.KeyboardEvent<HTMLButtonElement>) => {
+      if (e.key === "Escape" && activeBadge !== null) {
+        e.preventDefault()
+        setActiveBadge(null)
+        return
+      }
+      if (e.key !== "ArrowLeft" && e.key !== "ArrowRight") return
+      if (selectedOptions.length === 0) return
+
+      e.preventDefault()
+      const step = (e.key === "ArrowRight") !== (i18n.dir === "rtl") ? 1 : -1
+      // The picked badge may have been removed by a click in the meantime
+      const current =
+        activeBadge !== null && activeBadge < selectedOptions.length
+          ? activeBadge
+          : null
+      if (current === null) {
+        const first = step > 0 ? 0 : selectedOptions.length - 1
+        setActiveBadge(first)
+        announcePosition(first)
+        return
+      }
+
+      const next = current + step
+      if (next < 0 || next >= selectedOptions.length) return
+
+      if (e.shiftKey) {
+        moveSelected(current, next)
+        setActiveBadge(next)
+        setAnnouncement(
+          i18n.t("badgeMoved", {
+            label: select.getLabel(selectedOptions[current]),
+            position: next + 1,
+            count: selectedOptions.length,
+          })
+        )
+      } else {
+        setActiveBadge(next)
+        announcePosition(next)
+      }
+    }
+
+    // Removes the badge picked for reordering, or else the last removable one.
+    // Returns false when there was nothing to remove.
+    const removeBadge = () => {
+      const picked =
+        activeBadge !== null ? selectedOptions[activeBadge] : undefined
+      if (picked) {
+        setActiveBadge(null)
+        if (canDeselect(picked)) {
+          toggleOption(picked)
+          setAnnouncement(i18n.t("removed", { label: select.getLabel(picked) }))
         }
+        return true
+      }
+
+      const removable = selectedOptions.filter(canDeselect)
+      const last = removable[removable.length - 1]
+      if (!last) return false
+
+      toggleOption(last)
+      setAnnouncement(i18n.t("removed", { label: select.getLabel(last) }))
+      return true
+    }
 
-        // Add wheel event listener
-        const handleWheel = (e: WheelEvent) => {
-          // Prevent default to avoid double scrolling in parent containers when inside popover
-          e.preventDefault()
+    const handleTriggerKeyDown = (e: React.KeyboardEvent<HTMLButtonElement>) => {
+      props.onKeyDown?.(e)
+      if (e.defaultPrevented) return
+      if (sortable) {
+        handleSortKeyDown(e)
+        if (e.defaultPrevented) return
+      }
+      if (e.key !== "Backspace" && e.key !== "Delete") return
+
+      if (removeBadge()) e.preventDefault()
+    }
+
+    // ArrowRight and ArrowLeft expand and collapse the highlighted tree node
+    const handleTreeKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+      if (!tree.enabled || (e.key !== "ArrowRight" && e.key !== "ArrowLeft")) {
+        return
+      }
 
-          // Calculate new scroll position
-          const newScrollTop = container.scrollTop + e.deltaY
+      const active = listedOptions.find(
+        (option) => select.getItemValue(option) === select.activeItem
+      )
+      if (!active) return
 
-          // Apply scroll
-          container.scrollTop = newScrollTop
+      const expand = (e.key === "ArrowRight") !== (i18n.dir === "rtl")
+      const isExpanded = tree.isExpanded(active)
+      if (expand ? isExpanded || !tree.isExpandable(active) : !isExpanded) {
+        return
+      }
 
-          // Use the same guarded logic as handleScroll
-          if (!isLoading) handleScroll()
+      e.preventDefault()
+      tree.setExpanded(active, expand)
+    }
+
+    // Inline mode drives the list from the field's input, which lives outside
+    // the Command, so the highlighted row is moved here instead of by cmdk
+    const createValue = i18n.t("create", { input: createTerm })
+    const navigableItems = [
+      ...recentOptions
+        .filter((option) => !isDisabled(option))
+        .map(getRecentItemValue),
+      ...listedOptions
+        .filter((option) => !isDisabled(option))
+        .map(select.getItemValue),
+      ...(canCreate && !isSelectedView ? [createValue] : []),
+    ]
+    // Only typed text highlights the first match, so Enter in an empty input
+    // does not pick an option by accident
+    const searchTerm = debouncedSearch.trim()
+    const firstItem = searchTerm ? navigableItems[0] ?? "" : ""
+
+    useEffect(() => {
+      if (isInline && isPopoverOpen) select.setActiveItem(firstItem)
+    }, [isInline, isPopoverOpen, searchTerm, firstItem])
+
+    useEffect(() => {
+      if (!isInline || !isPopoverOpen || isVirtualized) return
+
+      const timeout = setTimeout(() => {
+        select.listRef.current
+          ?.querySelector('[cmdk-item][data-selected="true"]')
+          ?.scrollIntoView({ block: "nearest" })
+      }, 10)
+      return () => clearTimeout(timeout)
+    }, [select.activeItem])
+
+    const moveActiveItem = (step: 1 | -1) => {
+      if (navigableItems.length === 0) return
+
+      const current = navigableItems.indexOf(select.activeItem)
+      const next =
+        current === -1
+          ? step > 0
+            ? 0
+            : navigableItems.length - 1
+          : Math.min(Math.max(current + step, 0), navigableItems.length - 1)
+      select.setActiveItem(navigableItems[next])
+
+      const index = listedOptions.findIndex(
+        (option) => select.getItemValue(option) === navigableItems[next]
+      )
+      if (isVirtualized && index !== -1) virtualList.scrollToIndex(index)
+    }
+
+    const commitActiveItem = () => {
+      if (canCreate && select.activeItem === createValue) {
+        creator.create(createTerm)
+        return true
+      }
+
+      const active =
+        listedOptions.find(
+          (option) => select.getItemValue(option) === select.activeItem
+        ) ??
+        recentOptions.find(
+          (option) => getRecentItemValue(option) === select.activeItem
+        )
+      if (!active) return false
+
+      toggleOption(active)
+      select.setSearch("")
+      return true
+    }
+
+    const handleInlineKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+      if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+        e.preventDefault()
+        if (isPopoverOpen) {
+          moveActiveItem(e.key === "ArrowDown" ? 1 : -1)
+        } else {
+          select.setOpen(true)
         }
+      } else if (e.key === "Enter" || (e.key === "," && select.search.trim())) {
+        if (isPopoverOpen && commitActiveItem()) e.preventDefault()
+      } else if (e.key === "Backspace" && !select.search) {
+        if (removeBadge()) e.preventDefault()
+      }
+    }
 
-        container.addEventListener("scroll", handleScroll)
-        container.addEventListener("wheel", handleWheel, { passive: false })
+    // Pasted lists are committed at once; plain text is pasted as search text
+    const handleInlinePaste = async (
+      e: React.ClipboardEvent<HTMLInputElement>
+    ) => {
+      const text = e.clipboardData.getData("text")
+      if (!PASTE_SEPARATORS.test(text)) return
 
-        return () => {
-          container.removeEventListener("scroll", handleScroll)
-          container.removeEventListener("wheel", handleWheel)
+      e.preventDefault()
+      let parsed: T[] = []
+      const unmatched: string[] = []
+      if (parseValue) {
+        try {
+          parsed = await parseValue(text)
+        } catch {
+          select.setSearch(text)
+          return
         }
-      }, 10) // short delay to ensure popover is visible
+      } else {
+        const known = tree.enabled ? tree.nodes : options
+        for (const part of text.split(PASTE_SEPARATORS)) {
+          const label = part.trim().toLowerCase()
+          if (!label) continue
 
-      return () => clearTimeout(timeout)
-    }, [isPopoverOpen, hasNextPage, isFetchingNextPage, onLoadMore, isLoading])
+          const match = known.find(
+            (option) => select.getLabel(option).toLowerCase() === label
+          )
+          if (match) {
+            parsed.push(match)
+          } else {
+            unmatched.push(part.trim())
+          }
+        }
+      }
 
-    return (
-      <Popover
-        open={isPopoverOpen}
-        onOpenChange={(open:boolean) => {
-          setIsPopoverOpen(open)
-          if (!open && onSearchChange) {
-            onSearchChange("")
+      const added = parsed.filter(
+        (option, index) =>
+          !isDisabled(option) &&
+          !select.isSelected(option) &&
+          parsed.findIndex((o) => select.isOptionEqual(o, option)) === index
+      )
+      optionCache.remember(added)
+      commitSelection([...selectedOptions, ...added])
+      select.setSearch(unmatched.join(", "))
+    }
+
+    const renderExpander = (option: T) => {
+      if (!tree.isExpandable(option)) {
+        return <span aria-hidden className="me-1 h-4 w-4 shrink-0" />
+      }
+
+      const isExpanded = tree.isExpanded(option)
+      return (
+        <button
+          type="button"
+          tabIndex={-1}
+          aria-label={i18n.t(isExpanded ? "collapse" : "expand")}
+          aria-expanded={isExpanded}
+          className="text-muted-foreground me-1 h-4 w-4 shrink-0"
+          // Keep focus in the search input, like the rows themselves
+          onPointerDown={(e) => e.preventDefault()}
+          onClick={(e) => {
+            e.stopPropagation()
+            tree.setExpanded(option, !isExpanded)
+          }}
+        >
+          {tree.isLoadingChildren(option) ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            <ChevronRight
+              className={cn(
+                "h-4 w-4 transition-transform",
+                isExpanded ? "rotate-90" : "rtl:rotate-180"
+              )}
+            />
+          )}
+        </button>
+      )
+    }
+
+    const renderOptionItem = (
+      option: T,
+      index?: number,
+      isRecent = false
+    ) => {
+      // Tree parents are checked when their whole branch is selected
+      const isTreeNode = tree.enabled && select.isResolved(option)
+      const checkState = isTreeNode
+        ? tree.getCheckState(option, select.isSelected)
+        : select.isSelected(option)
+          ? "checked"
+          : "unchecked"
+      const isSelected = checkState === "checked"
+      const itemProps = select.getItemProps(option, {
+        disabled: isSelected
+          ? !canDeselect(option)
+          : isDisabled(option) || isAtMax,
+        onSelect: () => toggleOption(option),
+      })
+      const depth = showTree && index !== undefined ? treeRows[index].depth : 0
+      const isTreeRow = showTree && !isRecent
+      return (
+        <CommandItem
+          key={String(option[valueKey])}
+          ref={
+            isVirtualized && index !== undefined
+              ? virtualList.measureRef(index)
+              : undefined
           }
-        }}
-        modal={modalPopover}
-      >
-        <PopoverTrigger asChild>
-          <Button
-            ref={ref}
-            {...props}
-            onClick={() => setIsPopoverOpen(!isPopoverOpen)}
+          {...itemProps}
+          value={isRecent ? getRecentItemValue(option) : itemProps.value}
+          aria-checked={checkState === "indeterminate" ? "mixed" : isSelected}
+          className="group cursor-pointer"
+          style={
+            isTreeRow
+              ? { paddingInlineStart: `calc(0.5rem + ${depth * 1.25}rem)` }
+              : undefined
+          }
+        >
+          {isTreeRow && renderExpander(option)}
+          <div
             className={cn(
-              "flex h-auto min-h-10 w-full items-center justify-between rounded-md border bg-inherit p-1 hover:bg-inherit [&_svg]:pointer-events-auto",
-              className
+              "border-primary me-2 flex h-4 w-4 items-center justify-center rounded-sm border",
+              checkState !== "unchecked"
+                ? "bg-primary text-primary-foreground"
+                : "opacity-50 [&_svg]:invisible"
             )}
           >
-            {/* Change 5: Render from selectedOptions */}
-            {selectedOptions.length > 0 ? (
-              <div className="flex w-full items-center justify-between">
-                <div className="flex flex-wrap items-center">
-                  {selectedOptions.slice(0, maxCount).map((option, index) => (
-                    <Badge
-                      key={index}
-                      className={cn(
-                        isAnimating ? "animate-bounce" : "",
-                        multiSelectVariants({ variant })
-                      )}
-                      style={{ animationDuration: `${animation}s` }}
-                    >
-                      {getOptionLabel(option)}
-                      <div>
-                        <XCircle
-                          className="ml-2 h-4 w-4 cursor-pointer"
-                          onClick={(e:any) => {
-                            e.stopPropagation()
-                            toggleOption(option)
-                          }}
-                        />
-                      </div>
-                    </Badge>
-                  ))}
-                  {selectedOptions.length > maxCount && (
-                    <Badge
+            {checkState === "indeterminate" ? (
+              <MinusIcon className="h-4 w-4" />
+            ) : (
+              <CheckIcon className="h-4 w-4" />
+            )}
+          </div>
+          {renderOption && select.isResolved(option) ? (
+            renderOption(option, {
+              selected: isSelected,
+              active: select.activeItem === itemProps.value,
+              disabled: itemProps.disabled,
+              search: debouncedSearch,
+            })
+          ) : (
+            <HighlightMatch
+              text={select.getLabel(option)}
+              query={debouncedSearch}
+            />
+          )}
+          {recents.enabled && select.isResolved(option) && (
+            <FavoriteToggle
+              favorite={recents.isFavorite(option)}
+              onToggle={() => recents.toggleFavorite(option)}
+              label={i18n.t(
+                recents.isFavorite(option) ? "removeFavorite" : "addFavorite"
+              )}
+            />
+          )}
+        </CommandItem>
+      )
+    }
+
+    const infiniteScrollIndicator = select.isFetchingNextPage ? (
+      <div className="text-muted-foreground flex items-center justify-center gap-2 p-2 text-center text-xs">
+        <Loader2 className="text-primary h-4 w-4 animate-spin" />
+        {i18n.t("loading")}
+      </div>
+    ) : select.nextPageError ? (
+      <div role="alert" className="p-2 text-center text-xs">
+        <span className="text-destructive">{errorMessage}</span>
+        <Button variant="ghost" size="sm" onClick={select.retry}>
+          {i18n.t("loadMore")}
+        </Button>
+      </div>
+    ) : select.hasNextPage ? (
+      <div className="text-muted-foreground p-2 text-center text-xs">
+        {i18n.t("scrollToLoadMore")}
+      </div>
+    ) : options.length > 0 ? (
+      <div className="text-muted-foreground p-2 text-center text-xs">
+        {i18n.t("noMoreResults")}
+      </div>
+    ) : null
+
+    // Stubs of unresolved keys get the default badge, labelled with the key
+    const allResolved = selectedOptions.every(select.isResolved)
+    const badges = renderValue && allResolved ? (
+      renderValue(selectedOptions)
+    ) : (
+      <>
+        {selectedOptions
+          .slice(0, visibleBadgeCount)
+          .map((option, index) => {
+            const badge = renderBadge && select.isResolved(option) ? (
+              <React.Fragment key={index}>
+                {renderBadge(option, {
+                  onRemove: () => toggleOption(option),
+                  removable: canDeselect(option),
+                })}
+              </React.Fragment>
+            ) : (
+              <Badge
+                key={index}
+                className={cn(
+                  isAnimating ? "animate-bounce" : "",
+                  multiSelectVariants({ variant })
+                )}
+                style={{ animationDuration: `${animation}s` }}
+              >
+                {select.getLabel(option)}
+                {canDeselect(option) && (
+                  <div>
+                    <XCircle
+                      className="ms-2 h-4 w-4 cursor-pointer"
+                      onClick={(e:any) => {
+                        e.stopPropagation()
+                        toggleOption(option)
+                      }}
+                    />
+                  </div>
+                )}
+              </Badge>
+            )
+            return sortable
+              ? renderSortableBadge(index, badge)
+              : badge
+          })}
+        {selectedOptions.length > visibleBadgeCount && (
+          <span
+            {...sortableBadges.getTargetProps(maxCount)}
+            className={cn(
+              "inline-flex rounded-md",
+              sortableBadges.dragIndex !== null &&
+                sortableBadges.overIndex === maxCount &&
+                "ring-ring ring-2"
+            )}
+          >
+            <Badge
+              className={cn(
+                "text-foreground border-foreground/1 bg-transparent hover:bg-transparent",
+                isAnimating ? "animate-bounce" : "",
+                multiSelectVariants({ variant })
+              )}
+              style={{ animationDuration: `${animation}s` }}
+            >
+              {i18n.t("moreSelected", {
+                count: selectedOptions.length - maxCount,
+              })}
+              {selectedOptions.slice(maxCount).some(canDeselect) && (
+                <XCircle
+                  className="ms-2 h-4 w-4 cursor-pointer"
+                  onClick={(e:any) => {
+                    e.stopPropagation()
+                    clearExtraOptions()
+                  }}
+                />
+              )}
+            </Badge>
+          </span>
+        )}
+      </>
+    )
+
+    // The remaining trigger props go to the text input in inline mode
+    const inputProps = props as React.InputHTMLAttributes<HTMLInputElement>
+
+    const inlineField = (
+      <PopoverAnchor asChild>
+        <div
+          ref={fieldRef}
+          dir={i18n.dir}
+          onClick={() => inlineInputRef.current?.focus()}
+          className={cn(
+            "border-input focus-within:ring-ring flex min-h-10 w-full flex-wrap items-center gap-1 rounded-md border bg-inherit p-1 focus-within:ring-2",
+            props.disabled && "pointer-events-none opacity-50",
+            className
+          )}
+        >
+          {selectedOptions.length > 0 && badges}
+          <input
+            ref={composeRefs(ref, inlineInputRef)}
+            {...inputProps}
+            type="text"
+            {...select.getInputProps()}
+            onChange={(e) => {
+              select.setSearch(e.target.value)
+              if (!isPopoverOpen) select.setOpen(true)
+            }}
+            onClick={(e) => {
+              inputProps.onClick?.(e)
+              if (!isPopoverOpen) select.setOpen(true)
+            }}
+            onKeyDown={(e) => {
+              inputProps.onKeyDown?.(e)
+              if (!e.defaultPrevented) handleInlineKeyDown(e)
+            }}
+            onPaste={(e) => {
+              inputProps.onPaste?.(e)
+              if (!e.defaultPrevented) handleInlinePaste(e)
+            }}
+            aria-invalid={
+              props["aria-invalid"] ??
+              (isInvalid && selectedOptions.length === 0 ? true : undefined)
+            }
+            aria-required={required}
+            placeholder={
+              selectedOptions.length === 0
+                ? placeholder ?? i18n.messages.multiPlaceholder
+                : undefined
+            }
+            className="placeholder:text-muted-foreground h-8 min-w-24 flex-1 bg-transparent px-2 text-sm outline-none"
+          />
+          {selectedOptions.some(canDeselect) && (
+            <XIcon
+              className="text-muted-foreground mx-2 h-4 cursor-pointer"
+              onClick={(e: React.MouseEvent) => {
+                e.stopPropagation()
+                handleClear()
+              }}
+            />
+          )}
+        </div>
+      </PopoverAnchor>
+    )
+
+    const listContent = (
+      <Command
+        onKeyDown={handleTreeKeyDown}
+        shouldFilter={false}
+        value={select.activeItem}
+        onValueChange={select.setActiveItem}
+        className={cn(isDrawer && "min-h-0 flex-1")}
+      >
+        {isInline ? null : serverSearch ? (
+          <Input
+            type="text"
+            ref={inputRef}
+            placeholder={i18n.t("searchPlaceholder")}
+            {...select.getInputProps()}
+          />
+        ) : (
+          <CommandInput
+            placeholder={i18n.t("searchPlaceholder")}
+            value={select.search}
+            onValueChange={select.setSearch}
+          />
+        )}
+        <div role="group" className="flex gap-1 border-b p-1">
+          <Button
+            type="button"
+            variant={isSelectedView ? "ghost" : "secondary"}
+            size="sm"
+            className="h-7 flex-1 text-xs"
+            aria-pressed={!isSelectedView}
+            onClick={() => setView("all")}
+          >
+            {i18n.t("viewAll")}
+          </Button>
+          <Button
+            type="button"
+            variant={isSelectedView ? "secondary" : "ghost"}
+            size="sm"
+            className="h-7 flex-1 text-xs"
+            aria-pressed={isSelectedView}
+            onClick={() => setView("selected")}
+          >
+            {i18n.t("viewSelected", { count: selectedOptions.length })}
+          </Button>
+        </div>
+        {!isSelectedView &&
+          (invertible || (getAllMatchingValues && searchTerm)) && (
+            <div className="flex flex-wrap gap-1 border-b p-1">
+              {invertible && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 text-xs"
+                  onClick={invertSelection}
+                >
+                  {i18n.t("invertSelection")}
+                </Button>
+              )}
+              {getAllMatchingValues && searchTerm && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 text-xs"
+                  disabled={matchingStatus === "pending"}
+                  onClick={selectAllMatching}
+                >
+                  {matchingStatus === "pending" && (
+                    <Loader2 className="me-2 h-4 w-4 animate-spin" />
+                  )}
+                  {i18n.t("selectMatching", { input: searchTerm })}
+                </Button>
+              )}
+            </div>
+          )}
+        {matchingStatus === "error" && (
+          <div role="alert" className="text-destructive px-2 pt-2 text-xs">
+            {i18n.t("selectMatchingError")}
+          </div>
+        )}
+        {isAtMax && maxSelected !== undefined && (
+          <div className="text-muted-foreground px-2 pt-2 text-xs">
+            {i18n.t("maxSelected", { count: maxSelected })}
+          </div>
+        )}
+        {minSelected !== undefined &&
+          selectedOptions.length < minSelected && (
+            <div className="text-muted-foreground px-2 pt-2 text-xs">
+              {i18n.t("minSelected", { count: minSelected })}
+            </div>
+          )}
+        {validationMessage && (
+          <div className="text-destructive px-2 pt-2 text-xs">
+            {validationMessage}
+          </div>
+        )}
+        <CommandList
+          {...select.getListProps()}
+          className={cn(
+            "max-h-[300px] overflow-y-auto",
+            isDrawer && "max-h-none flex-1"
+          )}
+        >
+          {recentOptions.length > 0 && (
+            <CommandGroup heading={i18n.t("recent")}>
+              {recentOptions.map((option) =>
+                renderOptionItem(option, undefined, true)
+              )}
+            </CommandGroup>
+          )}
+          {select.error ? (
+            <div
+              role="alert"
+              className="flex flex-col items-center gap-2 p-4 text-center text-sm"
+            >
+              <span className="text-destructive">{errorMessage}</span>
+              <Button variant="outline" size="sm" onClick={select.retry}>
+                {i18n.t("retry")}
+              </Button>
+            </div>
+          ) : (
+            <>
+              {isSelectedView && listedOptions.length === 0 && (
+                <div className="text-muted-foreground p-4 text-center text-sm">
+                  {i18n.t(
+                    selectedOptions.length === 0
+                      ? "noSelection"
+                      : "noResults"
+                  )}
+                </div>
+              )}
+              <CommandGroup>
+                {(!isSelectedView || listedOptions.length > 0) && (
+                  <CommandItem
+                    key="all"
+                    onSelect={toggleAll}
+                    aria-checked={
+                      isSelectedView || isAllSelected(selectAllMembers)
+                    }
+                    className="cursor-pointer"
+                  >
+                    <div
                       className={cn(
-                        "text-foreground border-foreground/1 bg-transparent hover:bg-transparent",
-                        isAnimating ? "animate-bounce" : "",
-                        multiSelectVariants({ variant })
+                        "border-primary me-2 flex h-4 w-4 items-center justify-center rounded-sm border",
+                        isSelectedView || isAllSelected(selectAllMembers)
+                          ? "bg-primary text-primary-foreground"
+                          : "opacity-50 [&_svg]:invisible"
                       )}
-                      style={{ animationDuration: `${animation}s` }}
                     >
-                      {`+ ${selectedOptions.length - maxCount} more`}
-                      <XCircle
-                        className="ml-2 h-4 w-4 cursor-pointer"
+                      <CheckIcon className="h-4 w-4" />
+                    </div>
+                    <span>
+                      {i18n.t(isSelectedView ? "deselectAll" : "selectAll")}
+                    </span>
+                  </CommandItem>
+                )}
+                {!isGrouped && (
+                  <>
+                    <div
+                      aria-hidden
+                      ref={virtualList.spacerRef}
+                      style={{ height: virtualList.paddingTop }}
+                    />
+                    {virtualList.items.map(({ index }) =>
+                      renderOptionItem(listedOptions[index], index)
+                    )}
+                    {virtualList.paddingBottom > 0 && (
+                      <div
+                        aria-hidden
+                        style={{ height: virtualList.paddingBottom }}
+                      />
+                    )}
+                    {!isSelectedView && infiniteScrollIndicator}
+                  </>
+                )}
+              </CommandGroup>
+              {groupBy && isGrouped && (
+                <>
+                  {groupOptions(listedOptions, groupOf, groupOrder).map(
+                    (group) => {
+                      const groupSelected = isAllSelected(group.options)
+                      return (
+                        <CommandGroup
+                          key={group.label}
+                          heading={
+                            renderGroupLabel
+                              ? renderGroupLabel(
+                                  group.label,
+                                  group.options.filter(select.isResolved)
+                                )
+                              : group.label
+                          }
+                        >
+                          <CommandItem
+                            value={`${i18n.t("selectAll")} ${group.label}`}
+                            onSelect={() => toggleMany(group.options)}
+                            aria-checked={groupSelected}
+                            className="cursor-pointer"
+                          >
+                            <div
+                              className={cn(
+                                "border-primary me-2 flex h-4 w-4 items-center justify-center rounded-sm border",
+                                groupSelected
+                                  ? "bg-primary text-primary-foreground"
+                                  : "opacity-50 [&_svg]:invisible"
+                              )}
+                            >
+                              <CheckIcon className="h-4 w-4" />
+                            </div>
+                            <span>{i18n.t("selectAll")}</span>
+                          </CommandItem>
+                          {group.options.map((option) =>
+                            renderOptionItem(option)
+                          )}
+                        </CommandGroup>
+                      )
+                    }
+                  )}
+                  {!isSelectedView && infiniteScrollIndicator}
+                </>
+              )}
+            </>
+          )}
+          {canCreate && !isSelectedView && (
+            <CommandGroup>
+              <CommandItem
+                value={i18n.t("create", { input: createTerm })}
+                disabled={creator.status === "pending"}
+                onSelect={() => creator.create(createTerm)}
+                className="cursor-pointer"
+              >
+                {creator.status === "pending" ? (
+                  <Loader2 className="me-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <Plus className="me-2 h-4 w-4" />
+                )}
+                <span>{i18n.t("create", { input: createTerm })}</span>
+              </CommandItem>
+              {creator.status === "error" && (
+                <div className="text-destructive p-2 text-center text-xs">
+                  {i18n.t("createError", { input: createTerm })}
+                </div>
+              )}
+            </CommandGroup>
+          )}
+          <CommandSeparator />
+          {!isSelectedView && <div {...select.getSentinelProps()} />}
+        </CommandList>
+        {commitMode === "onApply" && !isDrawer && (
+          <div className="flex justify-end gap-2 border-t p-2">
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => select.setOpen(false)}
+            >
+              {i18n.t("cancel")}
+            </Button>
+            <Button type="button" size="sm" onClick={select.applyDraft}>
+              {i18n.t("apply")}
+            </Button>
+          </div>
+        )}
+      </Command>
+    )
+
+    return (
+      <Popover
+        open={isPopoverOpen && !isDrawer}
+        onOpenChange={select.setOpen}
+        modal={modalPopover}
+      >
+        {isInline ? (
+          inlineField
+        ) : (
+          <PopoverTrigger asChild>
+            <Button
+              ref={composeRefs(ref, triggerRef)}
+              type="button"
+              {...select.getTriggerProps()}
+              {...props}
+              aria-invalid={
+                props["aria-invalid"] ??
+                (isInvalid && selectedOptions.length === 0 ? true : undefined)
+              }
+              aria-required={required}
+              onKeyDown={handleTriggerKeyDown}
+              onBlur={(e: React.FocusEvent<HTMLButtonElement>) => {
+                props.onBlur?.(e)
+                setActiveBadge(null)
+              }}
+              dir={i18n.dir}
+              className={cn(
+                "flex h-auto min-h-10 w-full items-center justify-between rounded-md border bg-inherit p-1 hover:bg-inherit [&_svg]:pointer-events-auto",
+                className
+              )}
+            >
+              {/* Change 5: Render from selectedOptions */}
+              {selectedOptions.length > 0 ? (
+                <div className="flex w-full items-center justify-between">
+                  <div className="flex flex-wrap items-center">
+                    {badges}
+                  </div>
+                  <div className="flex items-center justify-between">
+                    {selectedOptions.some(canDeselect) && (
+                      <XIcon
+                        className="text-muted-foreground mx-2 h-4 cursor-pointer"
                         onClick={(e:any) => {
                           e.stopPropagation()
-                          clearExtraOptions()
+                          handleClear()
                         }}
                       />
-                    </Badge>
-                  )}
+                    )}
+                    <Separator
+                      orientation="vertical"
+                      className="flex h-full min-h-6"
+                    />
+                    <ChevronDown className="text-muted-foreground mx-2 h-4 cursor-pointer" />
+                  </div>
                 </div>
-                <div className="flex items-center justify-between">
-                  <XIcon
-                    className="text-muted-foreground mx-2 h-4 cursor-pointer"
-                    onClick={(e:any) => {
-                      e.stopPropagation()
-                      handleClear()
-                    }}
-                  />
-                  <Separator
-                    orientation="vertical"
-                    className="flex h-full min-h-6"
-                  />
+              ) : (
+                <div className="mx-auto flex w-full items-center justify-between">
+                  <span className="text-muted-foreground mx-3">
+                    {placeholder ?? i18n.messages.multiPlaceholder}
+                  </span>
                   <ChevronDown className="text-muted-foreground mx-2 h-4 cursor-pointer" />
                 </div>
-              </div>
-            ) : (
-              <div className="mx-auto flex w-full items-center justify-between">
-                <span className="text-muted-foreground mx-3">
-                  {placeholder}
-                </span>
-                <ChevronDown className="text-muted-foreground mx-2 h-4 cursor-pointer" />
-              </div>
-            )}
-          </Button>
-        </PopoverTrigger>
-        <PopoverContent className="w-[300px] p-0" align="start">
-          <Command>
-            {onSearchChange ? (
-              <Input
-                type="text"
-                ref={inputRef}
-                placeholder="Search..."
-                value={localSearch}
-                onChange={(e:any) => setLocalSearch(e.target.value)}
-              />
-            ) : (
-              <CommandInput placeholder="Search ..." />
-            )}
-            <CommandList
-              ref={scrollRef}
-              className="max-h-[300px] overflow-y-auto"
+              )}
+            </Button>
+          </PopoverTrigger>
+        )}
+        {drawer ? (
+          <drawer.Drawer open={isPopoverOpen} onOpenChange={select.setOpen}>
+            <drawer.DrawerContent
+              dir={i18n.dir}
+              className="h-[100dvh] max-h-[100dvh]"
+              // Keeps the virtual keyboard closed until the search is tapped
+              onOpenAutoFocus={(e: Event) => e.preventDefault()}
             >
-              <CommandGroup>
-                <CommandItem
-                  key="all"
-                  onSelect={toggleAll}
-                  className="cursor-pointer"
+              <drawer.DrawerHeader>
+                <drawer.DrawerTitle>
+                  {placeholder ?? i18n.messages.multiPlaceholder}
+                </drawer.DrawerTitle>
+              </drawer.DrawerHeader>
+              {listContent}
+              <drawer.DrawerFooter className="flex-row border-t">
+                <Button
+                  type="button"
+                  variant="outline"
+                  className="flex-1"
+                  disabled={!selectedOptions.some(canDeselect)}
+                  onClick={handleClear}
                 >
-                  <div
-                    className={cn(
-                      "border-primary mr-2 flex h-4 w-4 items-center justify-center rounded-sm border",
-                      selectedOptions.length === options.length
-                        ? "bg-primary text-primary-foreground"
-                        : "opacity-50 [&_svg]:invisible"
-                    )}
-                  >
-                    <CheckIcon className="h-4 w-4" />
-                  </div>
-                  <span>(Select All)</span>
-                </CommandItem>
-                {options.map((option, idx) => {
-                  const isSelected = selectedOptions.some(
-                    (o) => o[valueKey] === option[valueKey]
-                  )
-                  return (
-                    <CommandItem
-                      key={idx}
-                      onSelect={() => toggleOption(option)}
-                      className="cursor-pointer"
+                  {i18n.t("clear")}
+                </Button>
+                {commitMode === "onApply" ? (
+                  <>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      className="flex-1"
+                      onClick={() => select.setOpen(false)}
                     >
-                      <div
-                        className={cn(
-                          "border-primary mr-2 flex h-4 w-4 items-center justify-center rounded-sm border",
-                          isSelected
-                            ? "bg-primary text-primary-foreground"
-                            : "opacity-50 [&_svg]:invisible"
-                        )}
-                      >
-                        <CheckIcon className="h-4 w-4" />
-                      </div>
-                      <span>{getOptionLabel(option)}</span>
-                    </CommandItem>
-                  )
-                })}
-                {/* Infinite scroll indicators */}
-                {isFetchingNextPage ? (
-                  <div className="text-muted-foreground flex items-center justify-center gap-2 p-2 text-center text-xs">
-                    <Loader2 className="text-primary h-4 w-4 animate-spin" />
-                    Loading more...
-                  </div>
-                ) : hasNextPage ? (
-                  <div className="text-muted-foreground p-2 text-center text-xs">
-                    Scroll to load more
-                  </div>
-                ) : options.length > 0 ? (
-                  <div className="text-muted-foreground p-2 text-center text-xs">
-                    No more results
-                  </div>
-                ) : null}
-              </CommandGroup>
-              <CommandSeparator />
-            </CommandList>
-          </Command>
-        </PopoverContent>
+                      {i18n.t("cancel")}
+                    </Button>
+                    <Button
+                      type="button"
+                      className="flex-1"
+                      onClick={select.applyDraft}
+                    >
+                      {i18n.t("apply")}
+                    </Button>
+                  </>
+                ) : (
+                  <Button
+                    type="button"
+                    className="flex-1"
+                    onClick={() => select.setOpen(false)}
+                  >
+                    {i18n.t("done")}
+                  </Button>
+                )}
+              </drawer.DrawerFooter>
+            </drawer.DrawerContent>
+          </drawer.Drawer>
+        ) : (
+          <PopoverContent
+            className={cn(
+              "p-0",
+              isInline ? "w-[var(--radix-popover-trigger-width)]" : "w-[300px]"
+            )}
+            align="start"
+            dir={i18n.dir}
+            // Focus stays in the inline input, and clicks on its field do not
+            // count as outside the popover
+            onOpenAutoFocus={(e: Event) => isInline && e.preventDefault()}
+            onCloseAutoFocus={(e: Event) => isInline && e.preventDefault()}
+            onInteractOutside={(e: Event) => {
+              if (isInline && fieldRef.current?.contains(e.target as Node)) {
+                e.preventDefault()
+              }
+            }}
+          >
+            {listContent}
+          </PopoverContent>
+        )}
+        <div role="status" aria-live="polite" className="sr-only">
+          {liveMessage}
+        </div>
+        <SelectFormInputs
+          name={name}
+          form={props.form}
+          values={select.committedOptions.map((o) => String(o[valueKey]))}
+          multiple
+          required={required}
+          disabled={props.disabled}
+          controlRef={controlRef}
+          onInvalid={() => setIsInvalid(true)}
+        />
         {/* ... animation sparkle ... */}
         {animation > 0 && selectedValues.length > 0 && (
           <WandSparkles
@@ -397,6 +1799,10 @@ export const GenericMultiSelect = React.forwardRef(
       </Popover>
     )
   }
-)
+) as (<T extends Record<string, any>, K extends keyof T = keyof T>(
+  props: GenericMultiSelectProps<T, K> & {
+    ref?: React.Ref<HTMLButtonElement | HTMLInputElement>
+  }
+) => React.ReactElement | null) & { displayName?: string }
 
 GenericMultiSelect.displayName = "GenericMultiSelect"
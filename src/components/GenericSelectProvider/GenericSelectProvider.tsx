@@ -0,0 +1,22 @@
+import type { ReactNode } from "react"
+
+import { SelectLocaleContext, type SelectLocaleConfig } from "../../utils/index"
+
+export interface GenericSelectProviderProps extends SelectLocaleConfig {
+  children?: ReactNode
+}
+
+/**
+ * App-wide defaults for the messages, locale and direction of every select
+ * below it. Nested providers do not merge; the nearest one wins.
+ */
+export function GenericSelectProvider({
+  children,
+  ...config
+}: GenericSelectProviderProps) {
+  return (
+    <SelectLocaleContext.Provider value={config}>
+      {children}
+    </SelectLocaleContext.Provider>
+  )
+}
@@ -1,8 +1,30 @@
-import { useEffect, useRef, useState } from "react"
-import { Check, ChevronsUpDown, Loader2 } from "lucide-react"
+import * as React from "react"
+import { useEffect, useRef, useState, type ReactNode } from "react"
+import { Check, ChevronsUpDown, Loader2, Plus, XIcon } from "lucide-react"
 
 import { cn } from "@/lib/utils"
-import { useDebounce } from "../../utils/index"
+import {
+  composeRefs,
+  getErrorMessage,
+  groupOptions,
+  useCreateOption,
+  useFormReset,
+  useGenericSelect,
+  usePresentation,
+  useRecentOptions,
+  useSelectLocale,
+  useVirtualList,
+  type Direction,
+  type DrawerComponents,
+  type FilterOption,
+  type GroupBy,
+  type GroupOrder,
+  type LoadMoreThreshold,
+  type LoadOptions,
+  type OptionStorage,
+  type Presentation,
+  type SelectMessages,
+} from "../../utils/index"
 import { Button } from "@/components/ui/button"
 import {
   Command,
@@ -18,209 +40,637 @@ import {
   PopoverContent,
   PopoverTrigger,
 } from "@/components/ui/popover"
+import { FavoriteToggle } from "../FavoriteToggle"
+import { HighlightMatch } from "../HighlightMatch"
+import { SelectFormInputs } from "../SelectFormInputs"
+import type { OptionRenderState } from "../../types"
 
-export interface GenericSingleSelectProps<T extends Record<string, any>> {
-  options: T[]
-  valueKey: keyof T
+/**
+ * `valueMode="key"` (the default) works with the selected option's `valueKey`,
+ * `valueMode="object"` with the whole option.
+ */
+export type GenericSingleSelectValueProps<
+  T extends Record<string, any>,
+  K extends keyof T
+> =
+  | {
+      valueMode?: "key"
+      value?: T[K] | null
+      onValueChange: (value: T[K] | null) => void
+    }
+  | {
+      valueMode: "object"
+      value?: T | null
+      onValueChange: (value: T | null) => void
+    }
+
+export interface GenericSingleSelectBaseProps<
+  T extends Record<string, any>,
+  K extends keyof T = keyof T
+> extends Omit<
+    React.ButtonHTMLAttributes<HTMLButtonElement>,
+    "onChange" | "defaultValue" | "value" | "dir"
+  > {
+  options?: T[]
+  valueKey: K
   labelKey: keyof T
-  value?: T[keyof T] | null
   defaultValue?: Partial<T>
   placeholder?: string
-  onValueChange: (value: T[keyof T] | null) => void
+  /**
+   * Whether two options are the same, for composite keys or ids that arrive as
+   * strings (`(a, b) => String(a.id) === String(b.id)`). Defaults to comparing
+   * `valueKey` with `===`.
+   */
+  isOptionEqual?: (a: T, b: T) => boolean
   onSearchChange?: (searchTerm: string) => void
+  /**
+   * Fields searched besides the label when there is no server-side search.
+   * Defaults to `[valueKey]`.
+   */
+  searchKeys?: (keyof T)[]
+  /**
+   * Replaces the built-in fuzzy search. Return false or a score; higher scores
+   * are listed first.
+   */
+  filterOption?: FilterOption<T>
+  /**
+   * Built-in async data source. Replaces `options`, `onSearchChange`, `onLoadMore`,
+   * `hasNextPage`, `isFetchingNextPage` and `isLoading` when provided.
+   */
+  loadOptions?: LoadOptions<T>
+  /**
+   * Whatever else `loadOptions` depends on, e.g. the selected department.
+   * When it changes the loaded pages are dropped and fetched again.
+   */
+  loadOptionsKey?: unknown
+  /** Loads the option for a value that is not in any page seen so far. */
+  resolveValue?: (value: T[K]) => Promise<T>
   onLoadMore?: () => void
   displayClassName?: string
   hasNextPage?: boolean
   isFetchingNextPage?: boolean
   isLoading?: boolean
-  className?: string
+  /** Failure of the initial load, shown in the list with a retry action. */
+  error?: unknown | string
+  /** Failure of a next-page load, shown below the options loaded so far. */
+  nextPageError?: unknown | string
+  /** Called by the retry actions; not needed with `loadOptions`. */
+  onRetry?: () => void
+  /** How far from the bottom of the list the next page starts loading. Defaults to 3 rows. */
+  loadMoreThreshold?: LoadMoreThreshold
+  /** Render only the visible rows; useful once `options` grows into the thousands. */
+  virtualize?: boolean
+  /** Fixed row height in px for `virtualize`. Rows are measured when omitted. */
+  itemHeight?: number
+  /** Renders one titled group per distinct value. Grouped lists are not virtualized. */
+  groupBy?: GroupBy<T>
+  renderGroupLabel?: (group: string, options: T[]) => ReactNode
+  groupOrder?: GroupOrder
+  /** Content of an option row. The check indicator is still rendered before it. */
+  renderOption?: (option: T, state: OptionRenderState) => ReactNode
+  /** Content of the trigger when an option is selected. */
+  renderValue?: (selected: T) => ReactNode
+  /**
+   * Shows a "Create" item when no option matches the search text exactly. The
+   * created option is cached and selected.
+   */
+  onCreateOption?: (inputValue: string) => T | Promise<T>
+  /** Options that are shown but cannot be selected. */
+  isOptionDisabled?: (option: T) => boolean
+  /** Shows a button in the trigger that clears the selection. */
+  clearable?: boolean
+  /** Shows the selection but cannot be opened or changed. */
+  readOnly?: boolean
+  /** Controlled open state of the popover. */
+  open?: boolean
+  onOpenChange?: (open: boolean) => void
+  /**
+   * Where the list opens: a popover below the trigger, or a full-height bottom
+   * drawer. "auto" uses the drawer on small screens. Defaults to "popover".
+   * The drawer needs `drawerComponents`.
+   */
+  presentation?: Presentation
+  /** The shadcn drawer parts, for `presentation` "drawer" or "auto". */
+  drawerComponents?: DrawerComponents
+  /**
+   * Lists recent and favourite options at the top of the list while there is
+   * no search text, remembered under this key. Options are stored whole, so
+   * they must survive `JSON.stringify`.
+   */
+  storageKey?: string
+  /** Where `storageKey` is kept. Defaults to `localStorage`. */
+  storage?: OptionStorage
+  /** Number of recent options listed besides the favourites. Defaults to 5. */
+  recentLimit?: number
+  /** Overrides the built-in strings; defaults come from `GenericSelectProvider`. */
+  messages?: Partial<SelectMessages>
+  /** Locale for plural rules and numbers in `messages`. */
+  locale?: string
+  /** Mirrors the trigger and list for right-to-left languages. */
+  dir?: Direction
+  /** Submits the selected value under this name with native forms and `FormData`. */
+  name?: string
+  /** Blocks native form submission while nothing is selected. */
+  required?: boolean
 }
 
-export function GenericSingleSelect<T extends Record<string, any>>({
-  options,
-  valueKey,   
-  labelKey,
-  value,
-  defaultValue,
-  placeholder = "Select an option",
-  onValueChange,
-  onSearchChange,
-  onLoadMore,
-  hasNextPage,
-  isFetchingNextPage,
-  isLoading,
-  className,
-  displayClassName,
-}: GenericSingleSelectProps<T>) {
-  const [localSearch, setLocalSearch] = useState("")
-  const [isOpen, setIsOpen] = useState(false)
-  const scrollRef = useRef<HTMLDivElement>(null)
-  const debouncedSearch = useDebounce(localSearch, 300)
-  const isFetchingNextPageRef = useRef<boolean | undefined>(isFetchingNextPage)
-
-  useEffect(() => {
-    isFetchingNextPageRef.current = isFetchingNextPage
-  }, [isFetchingNextPage])
-
-  useEffect(() => {
-    if (onSearchChange && isOpen) {
-      onSearchChange(debouncedSearch)
+export type GenericSingleSelectProps<
+  T extends Record<string, any>,
+  K extends keyof T = keyof T
+> = GenericSingleSelectBaseProps<T, K> & GenericSingleSelectValueProps<T, K>
+
+// forwardRef drops the type parameters, so the cast at the end restores them
+export const GenericSingleSelect = React.forwardRef(
+  <T extends Record<string, any>, K extends keyof T = keyof T>(
+    {
+      options: optionsProp,
+      valueKey,
+      labelKey,
+      valueMode = "key",
+      value,
+      defaultValue,
+      placeholder,
+      onValueChange,
+      isOptionEqual,
+      onSearchChange,
+      searchKeys,
+      filterOption,
+      loadOptions,
+      loadOptionsKey,
+      resolveValue,
+      onLoadMore,
+      hasNextPage,
+      isFetchingNextPage,
+      isLoading,
+      error,
+      nextPageError,
+      onRetry,
+      loadMoreThreshold,
+      virtualize,
+      itemHeight,
+      groupBy,
+      renderGroupLabel,
+      groupOrder,
+      renderOption,
+      renderValue,
+      onCreateOption,
+      isOptionDisabled,
+      clearable,
+      readOnly,
+      open,
+      onOpenChange,
+      presentation,
+      drawerComponents,
+      storageKey,
+      storage,
+      recentLimit,
+      className,
+      displayClassName,
+      messages,
+      locale,
+      dir,
+      name,
+      required,
+      disabled,
+      form,
+      ...props
+    }: GenericSingleSelectProps<T, K>,
+    ref: React.Ref<HTMLButtonElement>
+  ) => {
+    const i18n = useSelectLocale({ messages, locale, dir })
+    // The props union pairs onValueChange with valueMode
+    const emitValue = onValueChange as (value: T | T[K] | null) => void
+    const triggerRef = useRef<HTMLButtonElement>(null)
+    const [isInvalid, setIsInvalid] = useState(false)
+    // A `defaultValue` with a key is a real selection; without one it is only
+    // shown in the trigger
+    const hasDefaultKey = defaultValue?.[valueKey] != null
+    const initialSelection = hasDefaultKey ? [defaultValue as T] : []
+    const select = useGenericSelect({
+      options: optionsProp,
+      valueKey,
+      getOptionLabel: (option) => String(option[labelKey] ?? ""),
+      value: value === undefined ? undefined : value != null ? [value] : [],
+      defaultValue: initialSelection,
+      onSelectionChange: ([selected]) => {
+        if (selected) recents.remember([selected])
+        emitValue(
+          valueMode === "object"
+            ? selected ?? null
+            : selected
+              ? selected[valueKey]
+              : null
+        )
+      },
+      isOptionEqual,
+      isOptionDisabled,
+      onSearchChange,
+      searchKeys,
+      filterOption,
+      loadOptions,
+      loadOptionsKey,
+      resolveValue,
+      onLoadMore,
+      hasNextPage,
+      isFetchingNextPage,
+      isLoading,
+      error,
+      nextPageError,
+      onRetry,
+      loadMoreThreshold,
+      open,
+      onOpenChange,
+    })
+    const { options, filteredOptions, debouncedSearch, isOpen } = select
+    const drawer =
+      usePresentation(presentation) === "drawer" ? drawerComponents : undefined
+    const isDrawer = !!drawer
+
+    const recents = useRecentOptions({
+      storageKey,
+      storage,
+      isOptionEqual: select.isOptionEqual,
+      limit: recentLimit,
+    })
+    select.optionCache.remember(recents.options)
+    // Fresher copies from the current options win over the stored ones
+    const recentOptions = select.search.trim()
+      ? []
+      : recents.options.map(
+          (option) => select.optionCache.getOption(option[valueKey]) ?? option
+        )
+    const selectedOption = select.selectedOptions[0]
+    // A key that is not resolved yet skips renderValue and shows the key
+    const resolvedOption =
+      selectedOption && select.isResolved(selectedOption)
+        ? selectedOption
+        : undefined
+    const isLocked = !!disabled || !!readOnly
+    const canClear = !!clearable && !!selectedOption && !isLocked
+
+    const setOpen = (next: boolean) => {
+      if (next && isLocked) return
+      select.setOpen(next)
+    }
+
+    const handleTriggerKeyDown = (e: React.KeyboardEvent<HTMLButtonElement>) => {
+      props.onKeyDown?.(e)
+      if (e.defaultPrevented || !canClear) return
+      if (e.key !== "Backspace" && e.key !== "Delete") return
+
+      e.preventDefault()
+      select.setSelection([])
     }
-  }, [debouncedSearch, onSearchChange, isOpen])
 
-  useEffect(() => {
-    if (!isOpen) {
-      setLocalSearch("")
+    // Back to the initial state: `defaultValue`, or nothing selected
+    useFormReset(triggerRef, () => select.setSelection(initialSelection), form)
+
+    const isVirtualized = !!virtualize && !groupBy && isOpen
+    const virtualList = useVirtualList({
+      count: filteredOptions.length,
+      scrollRef: select.listRef,
+      enabled: isVirtualized,
+      itemHeight,
+    })
+
+    // Rows outside the window are not rendered, so bring the selection into view on open
+    useEffect(() => {
+      if (!isVirtualized) return
+
+      const index = filteredOptions.findIndex(select.isSelected)
+      const timeout = setTimeout(() => virtualList.scrollToIndex(index), 10)
+      return () => clearTimeout(timeout)
+    }, [isVirtualized])
+
+    const creator = useCreateOption({
+      onCreateOption,
+      onCreated: (option: T) => {
+        select.optionCache.remember([option])
+        select.setSelection([option])
+        select.setOpen(false)
+      },
+    })
+
+    useEffect(() => {
+      creator.clearError()
+    }, [select.search, creator.clearError])
+
+    const createTerm = select.search.trim()
+    const canCreate =
+      !!onCreateOption &&
+      createTerm.length > 0 &&
+      !options.some(
+        (option) =>
+          String(option[labelKey] ?? "").toLowerCase() === createTerm.toLowerCase()
+      )
+
+    const errorMessage = select.error
+      ? getErrorMessage(select.error, i18n.t("loadError"))
+      : select.nextPageError
+        ? getErrorMessage(select.nextPageError, i18n.t("loadMoreError"))
+        : null
+
+    // Errors are announced by their role="alert" rows
+    const liveMessage = !isOpen || errorMessage
+      ? ""
+      : select.isLoading || select.isFetchingNextPage
+        ? i18n.t("loading")
+        : filteredOptions.length === 0
+          ? i18n.t("noResults")
+          : i18n.t("resultsAvailable", { count: filteredOptions.length })
+
+    const renderOptionItem = (
+      option: T,
+      index?: number,
+      isRecent = false
+    ) => {
+      const isSelected = select.isSelected(option)
+      const itemProps = select.getItemProps(option)
+      return (
+        <CommandItem
+          key={String(option[valueKey])}
+          ref={
+            isVirtualized && index !== undefined
+              ? virtualList.measureRef(index)
+              : undefined
+          }
+          {...itemProps}
+          // The same option can also be listed below the recent section
+          value={isRecent ? `recent ${itemProps.value}` : itemProps.value}
+          className="group"
+        >
+          <Check
+            className={cn(
+              "me-2 h-4 w-4",
+              isSelected ? "opacity-100" : "opacity-0"
+            )}
+          />
+          {renderOption ? (
+            renderOption(option, {
+              selected: isSelected,
+              active: select.activeItem === itemProps.value,
+              disabled: itemProps.disabled,
+              search: debouncedSearch,
+            })
+          ) : (
+            <HighlightMatch
+              className="text-wrap"
+              text={String(option[labelKey])}
+              query={debouncedSearch}
+            />
+          )}
+          {recents.enabled && (
+            <FavoriteToggle
+              favorite={recents.isFavorite(option)}
+              onToggle={() => recents.toggleFavorite(option)}
+              label={i18n.t(
+                recents.isFavorite(option) ? "removeFavorite" : "addFavorite"
+              )}
+            />
+          )}
+        </CommandItem>
+      )
     }
-  }, [isOpen])
-
-  // Infinite scroll effect
-  useEffect(() => {
-    const timeout = setTimeout(() => {
-      const container = scrollRef.current
-      if (!container || !onLoadMore) return
-
-      const handleScroll = () => {
-        // Guard: do nothing if there is no next page or a next-page fetch is already in flight
-        if (!hasNextPage || isFetchingNextPageRef.current) return
-
-        const { scrollTop, scrollHeight, clientHeight } = container
-        const atBottom = scrollTop + clientHeight >= scrollHeight - 5
-
-        if (atBottom && !isLoading && !isFetchingNextPageRef.current) {
-          onLoadMore()
-        }
-      }
-
-      const handleWheel = (e: WheelEvent) => {
-        const { scrollTop, scrollHeight, clientHeight } = container
-        const atBottom = scrollTop + clientHeight >= scrollHeight - 5
-        const atTop = scrollTop <= 5
-
-        if (
-          (atBottom && e.deltaY > 0 && !hasNextPage) ||
-          (atTop && e.deltaY < 0)
-        ) {
-          return // Let event bubble for parent scrolling
-        }
-
-        e.preventDefault()
-        container.scrollTop += e.deltaY
-        if (!isLoading) {
-          handleScroll()
-        }
-      }
-
-      container.addEventListener("scroll", handleScroll)
-      container.addEventListener("wheel", handleWheel, { passive: false })
-
-      return () => {
-        container.removeEventListener("scroll", handleScroll)
-        container.removeEventListener("wheel", handleWheel)
-      }
-    }, 10)
-
-    return () => clearTimeout(timeout)
-  }, [isOpen, hasNextPage, isFetchingNextPage, onLoadMore, isLoading])
-
-  const selectedOption = options.find((option) => option[valueKey] === value)
-
-  // When onSearchChange is not provided, fall back to local client-side filtering
-  const filteredOptions =
-    onSearchChange || !debouncedSearch.trim()
-      ? options
-      : options.filter((option) => {
-          const label = String(option[labelKey] ?? "")
-          const optionValue = String(option[valueKey] ?? "")
-          const term = debouncedSearch.toLowerCase().trim()
-          return (
-            label.toLowerCase().includes(term) ||
-            optionValue.toLowerCase().includes(term)
-          )
-        })
-
-  return (
-    <Popover open={isOpen} onOpenChange={setIsOpen}>
-      <PopoverTrigger asChild>
-        <Button
-          variant="outline"
-          role="combobox"
-          aria-expanded={isOpen}
-          className={cn("w-full justify-between", className)}
+
+    const listContent = (
+      <Command
+        shouldFilter={false}
+        value={select.activeItem}
+        onValueChange={select.setActiveItem}
+        className={cn(isDrawer && "min-h-0 flex-1")}
+      >
+        <CommandInput
+          placeholder={i18n.t("searchPlaceholder")}
+          value={select.search}
+          onValueChange={select.setSearch}
+          className="ps-8"
+        />
+        <CommandList
+          {...select.getListProps()}
+          className={cn(
+            `max-h-[300px] max-w-72 overflow-y-auto`,
+            isDrawer ? "max-h-none max-w-none flex-1" : displayClassName
+          )}
         >
-          {selectedOption ? (
-            <span className="truncate">{String(selectedOption[labelKey])}</span>
-          ) : defaultValue ? (
-            <span className="truncate">{defaultValue[labelKey]}</span>
+          {recentOptions.length > 0 && (
+            <CommandGroup heading={i18n.t("recent")}>
+              {recentOptions.map((option) =>
+                renderOptionItem(option, undefined, true)
+              )}
+            </CommandGroup>
+          )}
+          {select.error ? (
+            <div
+              role="alert"
+              className="flex flex-col items-center gap-2 p-4 text-center text-sm"
+            >
+              <span className="text-destructive">{errorMessage}</span>
+              <Button variant="outline" size="sm" onClick={select.retry}>
+                {i18n.t("retry")}
+              </Button>
+            </div>
+          ) : filteredOptions.length === 0 ? (
+            <CommandEmpty>{i18n.t("noResults")}</CommandEmpty>
+          ) : groupBy ? (
+            groupOptions(filteredOptions, groupBy, groupOrder).map((group) => (
+              <CommandGroup
+                key={group.label}
+                heading={
+                  renderGroupLabel
+                    ? renderGroupLabel(group.label, group.options)
+                    : group.label
+                }
+              >
+                {group.options.map((option) => renderOptionItem(option))}
+              </CommandGroup>
+            ))
           ) : (
-            <span className="text-muted-foreground">{placeholder}</span>
+            <CommandGroup>
+              <div
+                aria-hidden
+                ref={virtualList.spacerRef}
+                style={{ height: virtualList.paddingTop }}
+              />
+              {virtualList.items.map(({ index }) =>
+                renderOptionItem(filteredOptions[index], index)
+              )}
+              {virtualList.paddingBottom > 0 && (
+                <div
+                  aria-hidden
+                  style={{ height: virtualList.paddingBottom }}
+                />
+              )}
+            </CommandGroup>
           )}
-          <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
-        </Button>
-      </PopoverTrigger>
-      <PopoverContent className="w-full p-0">
-        <Command shouldFilter={false}>
-          <CommandInput
-            placeholder="Search..."
-            value={localSearch}
-            onValueChange={setLocalSearch}
-            className="pl-8"
-          />
-          <CommandList
-            ref={scrollRef}
+
+          {canCreate && (
+            <CommandGroup>
+              <CommandItem
+                value={i18n.t("create", { input: createTerm })}
+                disabled={creator.status === "pending"}
+                onSelect={() => creator.create(createTerm)}
+              >
+                {creator.status === "pending" ? (
+                  <Loader2 className="me-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <Plus className="me-2 h-4 w-4" />
+                )}
+                <span className="text-wrap">
+                  {i18n.t("create", { input: createTerm })}
+                </span>
+              </CommandItem>
+              {creator.status === "error" && (
+                <div className="text-destructive p-2 text-center text-xs">
+                  {i18n.t("createError", { input: createTerm })}
+                </div>
+              )}
+            </CommandGroup>
+          )}
+
+          {/* Infinite scroll indicators */}
+          {select.error ? null : select.isLoading ? (
+            <div className="text-muted-foreground flex items-center justify-center gap-2 p-2 text-center text-xs">
+              <Loader2 className="text-primary h-4 w-4 animate-spin" />
+              {i18n.t("loading")}
+            </div>
+          ) : select.nextPageError ? (
+            <div role="alert" className="p-2 text-center text-xs">
+              <span className="text-destructive">{errorMessage}</span>
+              <Button variant="ghost" size="sm" onClick={select.retry}>
+                {i18n.t("loadMore")}
+              </Button>
+            </div>
+          ) : select.hasNextPage ? (
+            <div className="text-muted-foreground p-2 text-center text-xs">
+              {i18n.t("scrollToLoadMore")}
+            </div>
+          ) : filteredOptions.length > 0 ? (
+            <div className="text-muted-foreground p-2 text-center text-xs">
+              {i18n.t("noMoreResults")}
+            </div>
+          ) : null}
+          <div {...select.getSentinelProps()} />
+        </CommandList>
+      </Command>
+    )
+
+    return (
+      <Popover open={isOpen && !isDrawer} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            ref={composeRefs(ref, triggerRef)}
+            type="button"
+            variant="outline"
+            {...select.getTriggerProps()}
+            {...props}
+            onClick={(e: React.MouseEvent<HTMLButtonElement>) => {
+              props.onClick?.(e)
+              if (!e.defaultPrevented) setOpen(!isOpen)
+            }}
+            onKeyDown={handleTriggerKeyDown}
+            disabled={disabled}
+            form={form}
+            aria-invalid={
+              props["aria-invalid"] ??
+              (isInvalid && !selectedOption ? true : undefined)
+            }
+            aria-required={required}
+            aria-readonly={readOnly || undefined}
+            dir={i18n.dir}
             className={cn(
-              `max-h-[300px] max-w-72 overflow-y-auto`,
-              displayClassName
+              "w-full justify-between [&_svg]:pointer-events-auto",
+              readOnly && "cursor-default hover:bg-background",
+              className
             )}
           >
-            {filteredOptions.length === 0 ? (
-              <CommandEmpty>No results found</CommandEmpty>
+            {resolvedOption && renderValue ? (
+              renderValue(resolvedOption)
+            ) : selectedOption ? (
+              <span className="truncate">{select.getLabel(selectedOption)}</span>
+            ) : defaultValue && !hasDefaultKey ? (
+              <span className="truncate">{defaultValue[labelKey]}</span>
             ) : (
-              <CommandGroup>
-                {filteredOptions.map((option) => {
-                  const isSelected = option[valueKey] === value
-                  return (
-                    <CommandItem
-                      key={String(option[valueKey])}
-                      value={String(option[valueKey])}
-                      onSelect={() => {
-                        onValueChange(isSelected ? null : option[valueKey])
-                        setIsOpen(false)
-                      }}
-                    >
-                      <Check
-                        className={cn(
-                          "mr-2 h-4 w-4",
-                          isSelected ? "opacity-100" : "opacity-0"
-                        )}
-                      />
-                      <span className="text-wrap">
-                        {String(option[labelKey])}
-                      </span>
-                    </CommandItem>
-                  )
-                })}
-              </CommandGroup>
+              <span className="text-muted-foreground">
+                {placeholder ?? i18n.messages.placeholder}
+              </span>
             )}
+            <span className="ms-2 flex shrink-0 items-center gap-1">
+              {canClear && (
+                <XIcon
+                  role="button"
+                  aria-label={i18n.t("clear")}
+                  className="h-4 w-4 cursor-pointer opacity-50 hover:opacity-100"
+                  onClick={(e: React.MouseEvent) => {
+                    e.stopPropagation()
+                    select.setSelection([])
+                  }}
+                />
+              )}
+              {!readOnly && (
+                <ChevronsUpDown className="h-4 w-4 shrink-0 opacity-50" />
+              )}
+            </span>
+          </Button>
+        </PopoverTrigger>
+        {drawer ? (
+          <drawer.Drawer open={isOpen} onOpenChange={setOpen}>
+            <drawer.DrawerContent
+              dir={i18n.dir}
+              className="h-[100dvh] max-h-[100dvh]"
+              // Keeps the virtual keyboard closed until the search is tapped
+              onOpenAutoFocus={(e: Event) => e.preventDefault()}
+            >
+              <drawer.DrawerHeader>
+                <drawer.DrawerTitle>
+                  {placeholder ?? i18n.messages.placeholder}
+                </drawer.DrawerTitle>
+              </drawer.DrawerHeader>
+              {listContent}
+              <drawer.DrawerFooter className="flex-row border-t">
+                {canClear && (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    className="flex-1"
+                    onClick={() => select.setSelection([])}
+                  >
+                    {i18n.t("clear")}
+                  </Button>
+                )}
+                <Button
+                  type="button"
+                  className="flex-1"
+                  onClick={() => setOpen(false)}
+                >
+                  {i18n.t("done")}
+                </Button>
+              </drawer.DrawerFooter>
+            </drawer.DrawerContent>
+          </drawer.Drawer>
+        ) : (
+          <PopoverContent className="w-full p-0" dir={i18n.dir}>
+            {listContent}
+          </PopoverContent>
+        )}
+        <div role="status" aria-live="polite" className="sr-only">
+          {liveMessage}
+        </div>
+        <SelectFormInputs
+          name={name}
+          form={form}
+          values={select.selectedValues.map(String)}
+          required={required}
+          disabled={disabled}
+          controlRef={triggerRef}
+          onInvalid={() => setIsInvalid(true)}
+        />
+      </Popover>
+    )
+  }
+) as (<T extends Record<string, any>, K extends keyof T = keyof T>(
+  props: GenericSingleSelectProps<T, K> & {
+    ref?: React.Ref<HTMLButtonElement>
+  }
+) => React.ReactElement | null) & { displayName?: string }
 
-            {/* Infinite scroll indicators */}
-            {isLoading ? (
-              <div className="text-muted-foreground flex items-center justify-center gap-2 p-2 text-center text-xs">
-                <Loader2 className="text-primary h-4 w-4 animate-spin" />
-                Loading more...
-              </div>
-            ) : hasNextPage ? (
-              <div className="text-muted-foreground p-2 text-center text-xs">
-                Scroll to load more
-              </div>
-            ) : filteredOptions.length > 0 ? (
-              <div className="text-muted-foreground p-2 text-center text-xs">
-                No more results
-              </div>
-            ) : null}
-          </CommandList>
-        </Command>
-      </PopoverContent>
-    </Popover>
-  )
-}
\ No newline at end of file
+GenericSingleSelect.displayName = "GenericSingleSelect"
\ No newline at end of file
@@ -0,0 +1,50 @@
+import type { ReactNode } from "react"
+
+import { cn } from "@/lib/utils"
+import { fuzzyMatch } from "../../utils/index"
+
+export interface HighlightMatchProps {
+  text: string
+  /** Search text; the parts of `text` it matches are wrapped in `<mark>`. */
+  query: string
+  className?: string
+  /** Classes of the `<mark>` elements. */
+  highlightClassName?: string
+}
+
+/**
+ * Renders `text` with the parts matched by the built-in fuzzy search
+ * highlighted, ignoring case and accents like the search itself.
+ */
+export function HighlightMatch({
+  text,
+  query,
+  className,
+  highlightClassName,
+}: HighlightMatchProps) {
+  const match = fuzzyMatch(text, query)
+  if (!match || match.ranges.length === 0) {
+    return <span className={className}>{text}</span>
+  }
+
+  const parts: ReactNode[] = []
+  let cursor = 0
+  for (const [start, end] of match.ranges) {
+    if (start > cursor) parts.push(text.slice(cursor, start))
+    parts.push(
+      <mark
+        key={start}
+        className={cn(
+          "text-foreground bg-transparent font-semibold",
+          highlightClassName
+        )}
+      >
+        {text.slice(start, end)}
+      </mark>
+    )
+    cursor = end
+  }
+  if (cursor < text.length) parts.push(text.slice(cursor))
+
+  return <span className={className}>{parts}</span>
+}
@@ -0,0 +1,70 @@
+import type * as React from "react"
+
+export interface SelectFormInputsProps {
+  name?: string
+  form?: string
+  /** Submitted values; multiple selects submit one entry per value. */
+  values: string[]
+  multiple?: boolean
+  required?: boolean
+  disabled?: boolean
+  /** Focusable element that stands in for the inputs, normally the trigger. */
+  controlRef: React.RefObject<HTMLElement | null>
+  onInvalid?: () => void
+}
+
+/**
+ * Hidden inputs that make a select visible to `FormData` and native form
+ * submission. Hidden inputs are skipped by constraint validation, so `required`
+ * is checked by a separate transparent input that hands focus to the trigger.
+ */
+export function SelectFormInputs({
+  name,
+  form,
+  values,
+  multiple,
+  required,
+  disabled,
+  controlRef,
+  onInvalid,
+}: SelectFormInputsProps) {
+  // An empty single select submits "" like a text input; an empty multiple
+  // select submits nothing like a native <select multiple>
+  const submitted = multiple || values.length > 0 ? values : [""]
+
+  return (
+    <>
+      {name &&
+        submitted.map((value, index) => (
+          <input
+            key={index}
+            type="hidden"
+            name={name}
+            value={value}
+            form={form}
+            disabled={disabled}
+          />
+        ))}
+      {required && (
+        <input
+          aria-hidden
+          tabIndex={-1}
+          required
+          value={values.length > 0 ? "selected" : ""}
+          onChange={() => {}}
+          form={form}
+          disabled={disabled}
+          onInvalid={onInvalid}
+          onFocus={() => controlRef.current?.focus()}
+          style={{
+            position: "absolute",
+            width: 1,
+            height: 1,
+            opacity: 0,
+            pointerEvents: "none",
+          }}
+        />
+      )}
+    </>
+  )
+}
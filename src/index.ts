@@ -1,3 +1,35 @@
 export * from "./components/GenericMultiSelect"; 
 export * from "./components/GenericSingleSelect";
-
+export * from "./components/GenericSelectProvider";
+export * from "./components/HighlightMatch";
+export type * from "./types";
+export {
+  createMemoryStorage,
+  defaultMessages,
+  fuzzyMatch,
+  useGenericSelect,
+} from "./utils";
+export type {
+  Direction,
+  DrawerComponents,
+  FilterOption,
+  FuzzyMatch,
+  FuzzyMatchOptions,
+  GenericSelect,
+  GenericSelectItemOverrides,
+  GroupBy,
+  GroupOrder,
+  LoadMoreThreshold,
+  LoadOptions,
+  LoadOptionsParams,
+  LoadOptionsResult,
+  MatchRange,
+  Message,
+  OptionCache,
+  OptionStorage,
+  PluralForms,
+  Presentation,
+  SelectLocaleConfig,
+  SelectMessages,
+  UseGenericSelectParams,
+} from "./utils";
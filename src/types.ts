@@ -0,0 +1,11 @@
+/** State passed to `renderOption` for each row of the list. */
+export interface OptionRenderState {
+  /** The option is part of the current selection. */
+  selected: boolean
+  /** The option is highlighted for keyboard navigation. */
+  active: boolean
+  /** The option cannot be toggled from the list. */
+  disabled: boolean
+  /** Current search text, e.g. for `HighlightMatch`. */
+  search: string
+}
@@ -0,0 +1,16 @@
+import type * as React from "react"
+
+/** Points several refs, e.g. a forwarded one and an internal one, at the same node. */
+export function composeRefs<E>(
+  ...refs: (React.Ref<E> | undefined)[]
+): React.RefCallback<E> {
+  return (node) => {
+    for (const ref of refs) {
+      if (typeof ref === "function") {
+        ref(node)
+      } else if (ref) {
+        ref.current = node
+      }
+    }
+  }
+}
@@ -0,0 +1,53 @@
+import { fuzzyMatch, type FoldedText } from "./fuzzy-match"
+
+/**
+ * Custom client-side search. Return false (or a score of 0 or less) to hide the
+ * option; options with higher scores are listed first.
+ */
+export type FilterOption<T> = (option: T, search: string) => boolean | number
+
+export interface FilterOptionsParams<T> {
+  /** Searched texts of an option, the label first. */
+  getSearchTexts: (option: T) => (string | FoldedText)[]
+  filterOption?: FilterOption<T>
+}
+
+// Matches in the label rank above equally good matches in other fields, which
+// only match as a substring: scattered characters match almost any id
+const SECONDARY_FIELD_WEIGHT = 0.5
+
+function scoreOption<T>(
+  option: T,
+  search: string,
+  { getSearchTexts, filterOption }: FilterOptionsParams<T>
+): number {
+  if (filterOption) {
+    const result = filterOption(option, search)
+    return typeof result === "number" ? result : result ? 1 : 0
+  }
+
+  return getSearchTexts(option).reduce((best, text, index) => {
+    const match = fuzzyMatch(text, search, { contiguous: index > 0 })
+    if (!match) return best
+
+    const score =
+      index === 0 ? match.score : match.score * SECONDARY_FIELD_WEIGHT
+    return Math.max(best, score)
+  }, 0)
+}
+
+/** Keeps the options matching `search`, best matches first. */
+export function filterOptions<T>(
+  options: T[],
+  search: string,
+  params: FilterOptionsParams<T>
+): T[] {
+  if (!search.trim()) return options
+
+  // Array.prototype.sort is stable, so equal scores keep their original order
+  return options
+    .map((option) => ({ option, score: scoreOption(option, search, params) }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+    .map(({ option }) => option)
+}
@@ -0,0 +1,139 @@
+/** Start (inclusive) and end (exclusive) of a matched part of the original text. */
+export type MatchRange = [start: number, end: number]
+
+export interface FuzzyMatch {
+  /** Higher is better; substring matches always outrank scattered ones. */
+  score: number
+  ranges: MatchRange[]
+}
+
+export interface FuzzyMatchOptions {
+  /** Only accept the query as one piece, e.g. for ids and codes. */
+  contiguous?: boolean
+}
+
+/** A text folded once with `foldSearchText`, for matching it repeatedly. */
+export interface FoldedText {
+  text: string
+  folded: string
+  /** Index in `text` of every character of `folded`. */
+  sourceIndex: number[]
+}
+
+const COMBINING_MARKS = /[\u0300-\u036f]/g
+const ASCII = /^[\x00-\x7f]*$/
+
+/**
+ * Lower-cases the text and strips diacritics, remembering for every character
+ * of the result which character of the original text it came from.
+ */
+export function foldSearchText(text: string): FoldedText {
+  // ASCII has no diacritics and keeps its length when lower-cased
+  if (ASCII.test(text)) {
+    return {
+      text,
+      folded: text.toLowerCase(),
+      sourceIndex: Array.from({ length: text.length }, (_, i) => i),
+    }
+  }
+
+  let folded = ""
+  const sourceIndex: number[] = []
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+      .normalize("NFD")
+      .replace(COMBINING_MARKS, "")
+      .toLowerCase()
+    for (const part of char) {
+      folded += part
+      sourceIndex.push(i)
+    }
+  }
+  return { text, folded, sourceIndex }
+}
+
+export function foldText(text: string): string {
+  return foldSearchText(text).folded
+}
+
+const isWordStart = (folded: string, index: number) =>
+  index === 0 || !/[a-z0-9]/.test(folded[index - 1])
+
+function toRanges(
+  text: string,
+  sourceIndex: number[],
+  positions: number[]
+): MatchRange[] {
+  const ranges: MatchRange[] = []
+  for (const position of positions) {
+    const start = sourceIndex[position]
+    let end = start + 1
+    // Keep decomposed accents together with their base character
+    while (end < text.length && /[\u0300-\u036f]/.test(text[end])) {
+      end++
+    }
+
+    const last = ranges[ranges.length - 1]
+    if (last && last[1] >= start) {
+      last[1] = Math.max(last[1], end)
+    } else {
+      ranges.push([start, end])
+    }
+  }
+  return ranges
+}
+
+/**
+ * Matches `query` against `text` ignoring case and accents. A contiguous match
+ * scores by how early it starts and whether it starts a word; otherwise the
+ * query characters may be spread out in order, scored by how close together
+ * they are. Returns null when there is no match. `source` may be folded
+ * beforehand with `foldSearchText` when it is matched repeatedly.
+ */
+export function fuzzyMatch(
+  source: string | FoldedText,
+  query: string,
+  { contiguous = false }: FuzzyMatchOptions = {}
+): FuzzyMatch | null {
+  const needle = foldText(query).trim()
+  if (!needle) return { score: 0, ranges: [] }
+
+  const { text, folded, sourceIndex } =
+    typeof source === "string" ? foldSearchText(source) : source
+
+  const at = folded.indexOf(needle)
+  if (at !== -1) {
+    const positions = Array.from({ length: needle.length }, (_, i) => at + i)
+    const score =
+      100 +
+      (folded === needle ? 100 : 0) +
+      (at === 0 ? 50 : isWordStart(folded, at) ? 25 : 0) -
+      Math.min(at, 20) -
+      // Tie-breaker: the shorter text is the closer match
+      Math.min(folded.length - needle.length, 20) / 10
+    return { score, ranges: toRanges(text, sourceIndex, positions) }
+  }
+  if (contiguous) return null
+
+  const chars = needle.replace(/\s+/g, "")
+  const positions: number[] = []
+  let score = 0
+  let from = 0
+  for (const char of chars) {
+    const index = folded.indexOf(char, from)
+    if (index === -1) return null
+
+    const previous = positions[positions.length - 1]
+    score += 1
+    if (previous !== undefined && index === previous + 1) score += 4
+    if (isWordStart(folded, index)) score += 6
+    positions.push(index)
+    from = index + 1
+  }
+
+  const span = positions[positions.length - 1] - positions[0] + 1
+  // At most 70, so scattered matches stay below every substring match (78+)
+  const ranked =
+    (score / (chars.length * 11)) * 50 + (chars.length / span) * 20
+  return { score: ranked, ranges: toRanges(text, sourceIndex, positions) }
+}
@@ -0,0 +1,6 @@
+/** Turns an `error` prop or a rejected request into text for the error row. */
+export function getErrorMessage(error: unknown, fallback: string): string {
+  if (typeof error === "string" && error.trim()) return error
+  if (error instanceof Error && error.message) return error.message
+  return fallback
+}
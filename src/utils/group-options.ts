@@ -0,0 +1,55 @@
+export type GroupBy<T> = keyof T | ((option: T) => string)
+
+/**
+ * Either the group labels in display order (unlisted groups follow in the order
+ * they first appear) or a comparator over group labels.
+ */
+export type GroupOrder = string[] | ((a: string, b: string) => number)
+
+export interface OptionGroup<T> {
+  label: string
+  options: T[]
+}
+
+export function getGroupLabel<T>(option: T, groupBy: GroupBy<T>): string {
+  return typeof groupBy === "function"
+    ? groupBy(option)
+    : String(option[groupBy] ?? "")
+}
+
+export function groupOptions<T>(
+  options: T[],
+  groupBy: GroupBy<T>,
+  groupOrder?: GroupOrder
+): OptionGroup<T>[] {
+  const groups = new Map<string, T[]>()
+  for (const option of options) {
+    const label = getGroupLabel(option, groupBy)
+    const group = groups.get(label)
+    if (group) {
+      group.push(option)
+    } else {
+      groups.set(label, [option])
+    }
+  }
+
+  const result = Array.from(groups, ([label, grouped]) => ({
+    label,
+    options: grouped,
+  }))
+
+  if (typeof groupOrder === "function") {
+    return result.sort((a, b) => groupOrder(a.label, b.label))
+  }
+
+  if (groupOrder) {
+    const rank = (label: string) => {
+      const index = groupOrder.indexOf(label)
+      return index === -1 ? groupOrder.length : index
+    }
+    // Array.prototype.sort is stable, so unlisted groups keep first-seen order
+    return result.sort((a, b) => rank(a.label) - rank(b.label))
+  }
+
+  return result
+}
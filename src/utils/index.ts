@@ -1 +1,18 @@
 export * from "./use-debounce"
+export * from "./use-option-cache"
+export * from "./use-virtual-list"
+export * from "./use-async-options"
+export * from "./group-options"
+export * from "./use-create-option"
+export * from "./use-listbox-ids"
+export * from "./use-generic-select"
+export * from "./get-error-message"
+export * from "./fuzzy-match"
+export * from "./filter-options"
+export * from "./select-messages"
+export * from "./use-form-reset"
+export * from "./compose-refs"
+export * from "./use-option-tree"
+export * from "./use-sortable"
+export * from "./use-presentation"
+export * from "./use-recent-options"
@@ -0,0 +1,185 @@
+import * as React from "react"
+
+/**
+ * Plural variants of a message, picked with `Intl.PluralRules` for the active
+ * locale. `other` is the fallback for forms that are left out.
+ */
+export type PluralForms = Partial<Record<Intl.LDMLPluralRule, string>> & {
+  other: string
+}
+
+/** A message with `{name}` placeholders, optionally with plural variants. */
+export type Message = string | PluralForms
+
+export interface SelectMessages {
+  placeholder: string
+  multiPlaceholder: string
+  searchPlaceholder: string
+  noResults: string
+  loading: string
+  scrollToLoadMore: string
+  noMoreResults: string
+  loadMore: string
+  retry: string
+  loadError: string
+  loadMoreError: string
+  /** Label of the buttons clearing the selection. */
+  clear: string
+  /** Closes the drawer presentation. */
+  done: string
+  /** Footer buttons of `commitMode="onApply"`. */
+  apply: string
+  cancel: string
+  invertSelection: string
+  /** `{input}` is the search text. */
+  selectMatching: string
+  selectMatchingError: string
+  selectAll: string
+  /** Select-all row of the "Selected" view. */
+  deselectAll: string
+  /** Buttons switching the multi-select list between all and selected options. */
+  viewAll: string
+  viewSelected: Message
+  /** Shown in the "Selected" view when nothing is selected. */
+  noSelection: string
+  /** Heading of the recent and favourite options. */
+  recent: string
+  /** Labels of the star buttons of option rows. */
+  addFavorite: string
+  removeFavorite: string
+  /** Labels of the expand and collapse buttons of tree nodes. */
+  expand: string
+  collapse: string
+  /** `{input}` is the search text. */
+  create: string
+  /** `{input}` is the search text. */
+  createError: string
+  /** Badge standing in for the selections past `maxCount`. */
+  moreSelected: Message
+  /** Screen reader announcement of the number of options shown. */
+  resultsAvailable: Message
+  /** `{count}` is `maxSelected`. */
+  maxSelected: Message
+  /** `{count}` is `minSelected`. */
+  minSelected: Message
+  /** Announced when a badge is removed from the keyboard. */
+  removed: string
+  /** Announced when a badge is picked for reordering from the keyboard. */
+  badgePosition: string
+  /** Announced when a badge was moved from the keyboard. */
+  badgeMoved: string
+}
+
+export const defaultMessages: SelectMessages = {
+  placeholder: "Select an option",
+  multiPlaceholder: "Select options",
+  searchPlaceholder: "Search...",
+  noResults: "No results found",
+  loading: "Loading more...",
+  scrollToLoadMore: "Scroll to load more",
+  noMoreResults: "No more results",
+  loadMore: "Load more",
+  retry: "Retry",
+  loadError: "Could not load options",
+  loadMoreError: "Could not load more options",
+  clear: "Clear selection",
+  done: "Done",
+  apply: "Apply",
+  cancel: "Cancel",
+  invertSelection: "Invert selection",
+  selectMatching: 'Select all matching "{input}"',
+  selectMatchingError: "Could not select all matching options",
+  selectAll: "(Select All)",
+  deselectAll: "(Deselect All)",
+  viewAll: "All",
+  viewSelected: "Selected ({count})",
+  noSelection: "Nothing selected",
+  recent: "Recent",
+  addFavorite: "Add to favourites",
+  removeFavorite: "Remove from favourites",
+  expand: "Expand",
+  collapse: "Collapse",
+  create: 'Create "{input}"',
+  createError: 'Could not create "{input}"',
+  moreSelected: "+ {count} more",
+  resultsAvailable: {
+    one: "{count} result available",
+    other: "{count} results available",
+  },
+  maxSelected: {
+    one: "You can select up to {count} option",
+    other: "You can select up to {count} options",
+  },
+  minSelected: {
+    one: "Select at least {count} option",
+    other: "Select at least {count} options",
+  },
+  removed: "Removed {label}",
+  badgePosition: "{label}, position {position} of {count}",
+  badgeMoved: "Moved {label} to position {position} of {count}",
+}
+
+export type Direction = "ltr" | "rtl"
+
+export interface SelectLocaleConfig {
+  messages?: Partial<SelectMessages>
+  /** BCP 47 tag used for plural rules and number formatting. */
+  locale?: string
+  /** Text direction; inherited from the document when omitted. */
+  dir?: Direction
+}
+
+export const SelectLocaleContext = React.createContext<SelectLocaleConfig>({})
+
+export function formatMessage(
+  message: Message,
+  values: Record<string, string | number> = {},
+  locale?: string
+): string {
+  const { count } = values
+  const template =
+    typeof message === "string"
+      ? message
+      : typeof count === "number"
+        ? message[new Intl.PluralRules(locale).select(count)] ?? message.other
+        : message.other
+
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+    const value = values[name]
+    if (value === undefined) return placeholder
+
+    return typeof value === "number" ? value.toLocaleString(locale) : value
+  })
+}
+
+export interface SelectLocale {
+  messages: SelectMessages
+  locale?: string
+  dir?: Direction
+  /** Formats a message by key, picking the plural form from `values.count`. */
+  t: (
+    key: keyof SelectMessages,
+    values?: Record<string, string | number>
+  ) => string
+}
+
+/**
+ * Resolves the messages of a select: props win over the nearest
+ * `GenericSelectProvider`, which wins over the English defaults.
+ */
+export function useSelectLocale(props: SelectLocaleConfig = {}): SelectLocale {
+  const context = React.useContext(SelectLocaleContext)
+  const messages = {
+    ...defaultMessages,
+    ...context.messages,
+    ...props.messages,
+  }
+  const locale = props.locale ?? context.locale
+
+  return {
+    messages,
+    locale,
+    dir: props.dir ?? context.dir,
+    t: (key, values) => formatMessage(messages[key], values, locale),
+  }
+}
@@ -0,0 +1,184 @@
+import * as React from "react"
+
+export interface LoadOptionsParams {
+  search: string
+  /** `nextCursor` of the previous page, undefined for the first page. */
+  cursor?: unknown
+  signal: AbortSignal
+}
+
+export interface LoadOptionsResult<T> {
+  items: T[]
+  /** Omit (or pass null) when there are no more pages. */
+  nextCursor?: unknown
+}
+
+export type LoadOptions<T> = (
+  params: LoadOptionsParams
+) => Promise<LoadOptionsResult<T>>
+
+export interface UseAsyncOptionsParams<T> {
+  loadOptions?: LoadOptions<T>
+  /** Search term, usually already debounced by the caller. */
+  search: string
+  /** Nothing is fetched while false, e.g. while the popover is closed. */
+  enabled: boolean
+  /**
+   * Whatever else `loadOptions` depends on, e.g. a parent filter. A new key
+   * (compared with `Object.is`) drops the loaded pages and aborts requests.
+   */
+  cacheKey?: unknown
+}
+
+export interface AsyncOptions<T> {
+  options: T[]
+  hasNextPage: boolean
+  isLoading: boolean
+  isFetchingNextPage: boolean
+  /** Failure of the first page of the current search. */
+  error: unknown
+  /** Failure of a later page; the pages loaded so far are kept. */
+  nextPageError: unknown
+  loadMore: () => void
+  /** Repeats the last failed request. */
+  retry: () => void
+}
+
+interface PageCacheEntry<T> {
+  items: T[]
+  nextCursor?: unknown
+  hasNextPage: boolean
+}
+
+type RequestStatus = "idle" | "loading" | "loadingMore"
+
+/**
+ * Data source behind the `loadOptions` prop. Owns paging, aborts requests for
+ * stale search terms and keeps the loaded pages of every term, so going back
+ * to a previous search is instant.
+ */
+export function useAsyncOptions<T>({
+  loadOptions,
+  search,
+  enabled,
+  cacheKey,
+}: UseAsyncOptionsParams<T>): AsyncOptions<T> {
+  const cacheRef = React.useRef(new Map<string, PageCacheEntry<T>>())
+  const controllerRef = React.useRef<AbortController | null>(null)
+  const lastRequestRef = React.useRef<{ term: string; cursor?: unknown }>(
+    undefined
+  )
+  const loadOptionsRef = React.useRef(loadOptions)
+  loadOptionsRef.current = loadOptions
+
+  const [entry, setEntry] = React.useState<PageCacheEntry<T>>()
+  const [status, setStatus] = React.useState<RequestStatus>("idle")
+  const [error, setError] = React.useState<unknown>(null)
+  const [failedPage, setFailedPage] = React.useState<"first" | "next">("first")
+
+  const fetchPage = React.useCallback(
+    async (term: string, cursor?: unknown) => {
+      const load = loadOptionsRef.current
+      if (!load) return
+
+      controllerRef.current?.abort()
+      const controller = new AbortController()
+      controllerRef.current = controller
+      lastRequestRef.current = { term, cursor }
+
+      const append = cursor !== undefined
+      setStatus(append ? "loadingMore" : "loading")
+      setError(null)
+
+      try {
+        const result = await load({
+          search: term,
+          cursor,
+          signal: controller.signal,
+        })
+        if (controller.signal.aborted) return
+
+        const previous = append ? cacheRef.current.get(term)?.items ?? [] : []
+        const next: PageCacheEntry<T> = {
+          items: [...previous, ...result.items],
+          nextCursor: result.nextCursor,
+          hasNextPage: result.nextCursor != null,
+        }
+        cacheRef.current.set(term, next)
+        setEntry(next)
+        setStatus("idle")
+      } catch (err) {
+        if (controller.signal.aborted) return
+
+        setError(err)
+        setFailedPage(append ? "next" : "first")
+        setStatus("idle")
+      }
+    },
+    []
+  )
+
+  const hasLoader = !!loadOptions
+
+  const cacheKeyRef = React.useRef(cacheKey)
+  React.useEffect(() => {
+    if (Object.is(cacheKeyRef.current, cacheKey)) return
+
+    cacheKeyRef.current = cacheKey
+    controllerRef.current?.abort()
+    cacheRef.current.clear()
+    lastRequestRef.current = undefined
+    setEntry(undefined)
+    setStatus("idle")
+    setError(null)
+  }, [cacheKey])
+
+  React.useEffect(() => {
+    if (!hasLoader) return
+    if (!enabled) {
+      // The aborted request is repeated when the popover opens again
+      controllerRef.current?.abort()
+      setStatus("idle")
+      return
+    }
+
+    const cached = cacheRef.current.get(search)
+    if (cached) {
+      controllerRef.current?.abort()
+      setEntry(cached)
+      setStatus("idle")
+      setError(null)
+      return
+    }
+
+    setEntry(undefined)
+    fetchPage(search)
+  }, [search, enabled, hasLoader, fetchPage, cacheKey])
+
+  React.useEffect(() => () => controllerRef.current?.abort(), [])
+
+  const loadMore = React.useCallback(() => {
+    const current = cacheRef.current.get(search)
+    if (!current?.hasNextPage || status !== "idle") return
+
+    fetchPage(search, current.nextCursor)
+  }, [search, status, fetchPage])
+
+  const retry = React.useCallback(() => {
+    const last = lastRequestRef.current
+    if (!last || status !== "idle") return
+
+    fetchPage(last.term, last.cursor)
+  }, [status, fetchPage])
+
+  return {
+    options: entry?.items ?? [],
+    hasNextPage: entry?.hasNextPage ?? false,
+    isLoading: status === "loading",
+    isFetchingNextPage: status === "loadingMore",
+    error: failedPage === "first" ? error : null,
+    nextPageError: failedPage === "next" ? error : null,
+    loadMore,
+    retry,
+  }
+}
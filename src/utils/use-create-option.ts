@@ -0,0 +1,51 @@
+import * as React from "react"
+
+export type CreateOptionStatus = "idle" | "pending" | "error"
+
+export interface UseCreateOptionParams<T> {
+  onCreateOption?: (inputValue: string) => T | Promise<T>
+  /** Called with the created option so the component can cache and select it. */
+  onCreated: (option: T) => void
+}
+
+export interface CreateOption {
+  status: CreateOptionStatus
+  error: unknown
+  create: (inputValue: string) => Promise<void>
+  /** Clears a failed attempt, e.g. when the search text changes. */
+  clearError: () => void
+}
+
+/**
+ * Runs `onCreateOption` for the "Create" item, tracking the pending and error
+ * state of async creation.
+ */
+export function useCreateOption<T>({
+  onCreateOption,
+  onCreated,
+}: UseCreateOptionParams<T>): CreateOption {
+  const [status, setStatus] = React.useState<CreateOptionStatus>("idle")
+  const [error, setError] = React.useState<unknown>(null)
+
+  const create = async (inputValue: string) => {
+    if (!onCreateOption || status === "pending") return
+
+    setStatus("pending")
+    setError(null)
+    try {
+      const option = await onCreateOption(inputValue)
+      setStatus("idle")
+      onCreated(option)
+    } catch (err) {
+      setError(err)
+      setStatus("error")
+    }
+  }
+
+  const clearError = React.useCallback(() => {
+    setStatus((current) => (current === "error" ? "idle" : current))
+    setError(null)
+  }, [])
+
+  return { status, error, create, clearError }
+}
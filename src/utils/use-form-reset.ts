@@ -0,0 +1,23 @@
+import * as React from "react"
+
+/**
+ * Calls `onReset` when the form owning `controlRef` is reset. The owner is read
+ * from the element, so it follows the `form` attribute as well as nesting.
+ */
+export function useFormReset(
+  controlRef: React.RefObject<HTMLButtonElement | HTMLInputElement | null>,
+  onReset: () => void,
+  form?: string
+) {
+  const onResetRef = React.useRef(onReset)
+  onResetRef.current = onReset
+
+  React.useEffect(() => {
+    const owner = controlRef.current?.form
+    if (!owner) return
+
+    const handleReset = () => onResetRef.current()
+    owner.addEventListener("reset", handleReset)
+    return () => owner.removeEventListener("reset", handleReset)
+  }, [controlRef, form])
+}
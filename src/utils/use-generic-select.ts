@@ -0,0 +1,588 @@
+import * as React from "react"
+
+import { filterOptions, type FilterOption } from "./filter-options"
+import { foldSearchText, type FoldedText } from "./fuzzy-match"
+import { useAsyncOptions, type LoadOptions } from "./use-async-options"
+import { useDebounce } from "./use-debounce"
+import { useListboxIds } from "./use-listbox-ids"
+import { useOptionCache, type OptionCache } from "./use-option-cache"
+
+export interface UseGenericSelectParams<
+  T extends Record<string, any>,
+  K extends keyof T = keyof T
+> {
+  options?: T[]
+  valueKey: K
+  getOptionLabel: (option: T) => string
+  /** Toggling adds to the selection instead of replacing it and closing. */
+  multiple?: boolean
+  /** Controlled open state of the popover. */
+  open?: boolean
+  onOpenChange?: (open: boolean) => void
+  /** Controlled selection, as keys or full option objects. */
+  value?: ReadonlyArray<T | T[K]>
+  defaultValue?: T[]
+  onSelectionChange?: (selected: T[]) => void
+  /**
+   * "onApply" keeps changes made while the popover is open in a draft, which
+   * `applyDraft` commits and closing discards. Defaults to "immediate".
+   */
+  commitMode?: "immediate" | "onApply"
+  /**
+   * Whether two options are the same, for composite keys or ids that arrive as
+   * strings. Defaults to comparing `valueKey` with `===`.
+   */
+  isOptionEqual?: (a: T, b: T) => boolean
+  isOptionDisabled?: (option: T) => boolean
+  /** Nested options of a tree, cached so that selected descendants keep their labels. */
+  getChildren?: (option: T) => T[] | undefined
+  onSearchChange?: (searchTerm: string) => void
+  /**
+   * Fields searched besides the label when there is no server-side search.
+   * Defaults to `[valueKey]`.
+   */
+  searchKeys?: (keyof T)[]
+  /** Replaces the built-in fuzzy search, which ignores case and accents. */
+  filterOption?: FilterOption<T>
+  loadOptions?: LoadOptions<T>
+  /** Drops the loaded pages when it changes, e.g. with a parent filter. */
+  loadOptionsKey?: unknown
+  resolveValue?: (value: T[K]) => Promise<T>
+  onLoadMore?: () => void
+  hasNextPage?: boolean
+  isFetchingNextPage?: boolean
+  isLoading?: boolean
+  /** Failure of the initial load; shown in place of the options. */
+  error?: unknown
+  /** Failure of a next-page load; the options loaded so far stay visible. */
+  nextPageError?: unknown
+  /** Called by the retry actions when the data comes from props. */
+  onRetry?: () => void
+  /** How far from the bottom of the list the next page starts loading. */
+  loadMoreThreshold?: LoadMoreThreshold
+}
+
+export type LoadMoreThreshold = { rows: number } | { px: number }
+
+export interface GenericSelectItemOverrides {
+  disabled?: boolean
+  onSelect?: () => void
+}
+
+export interface GenericSelect<
+  T extends Record<string, any>,
+  K extends keyof T = keyof T
+> {
+  isOpen: boolean
+  setOpen: (open: boolean) => void
+  search: string
+  setSearch: (search: string) => void
+  debouncedSearch: string
+  /** True when results are filtered by `onSearchChange` or `loadOptions`. */
+  serverSearch: boolean
+  options: T[]
+  /**
+   * `options` matching the debounced search, best matches first. Equal to
+   * `options` with server-side search.
+   */
+  filteredOptions: T[]
+  /** Applies the client-side search to any list, e.g. nested options. */
+  matchOptions: (options: T[]) => T[]
+  hasNextPage: boolean
+  isLoading: boolean
+  isFetchingNextPage: boolean
+  /** Failure of the initial load, from the `error` prop or `loadOptions`. */
+  error: unknown
+  /** Failure of a next-page load; automatic loading pauses while set. */
+  nextPageError: unknown
+  /** Loads the next page by hand, e.g. from a "Load more" button after an error. */
+  loadMore: () => void
+  /** Repeats the failed request. */
+  retry: () => void
+  /** The selection shown, including the unapplied draft of `commitMode="onApply"`. */
+  selectedOptions: T[]
+  selectedValues: T[K][]
+  /** The selection last passed to `onSelectionChange`. */
+  committedOptions: T[]
+  /** Commits the draft of `commitMode="onApply"` and closes the popover. */
+  applyDraft: () => void
+  isSelected: (option: T) => boolean
+  /** `isOptionEqual`, or the `valueKey` comparison when none was passed. */
+  isOptionEqual: (a: T, b: T) => boolean
+  /** `getOptionLabel`, or the key itself for values that are not resolved yet. */
+  getLabel: (option: T) => string
+  /**
+   * False for the stub of a key that is not resolved yet. A stub only holds
+   * `valueKey`, so keep it away from callbacks that expect a whole option.
+   */
+  isResolved: (option: T) => boolean
+  /** The option seen for a key, or a stub holding only the key. */
+  toOption: (value: T[K]) => T
+  setSelection: (selected: T[]) => void
+  toggleOption: (option: T) => void
+  clear: () => void
+  optionCache: OptionCache<T, K>
+  /** cmdk value of the highlighted item; pass with `setActiveItem` to `Command`. */
+  activeItem: string
+  setActiveItem: (value: string) => void
+  getItemValue: (option: T) => string
+  listRef: React.RefObject<HTMLDivElement | null>
+  getTriggerProps: () => {
+    role: "combobox"
+    "aria-expanded": boolean
+    "aria-haspopup": "listbox"
+    "aria-controls"?: string
+    "aria-activedescendant"?: string
+    onClick: () => void
+  }
+  getInputProps: () => {
+    value: string
+    onChange: (e: React.ChangeEvent<HTMLInputElement>) => void
+    role: "combobox"
+    "aria-expanded": boolean
+    "aria-autocomplete": "list"
+    "aria-controls"?: string
+    "aria-activedescendant"?: string
+  }
+  getListProps: () => {
+    ref: React.RefObject<HTMLDivElement | null>
+    "aria-multiselectable"?: boolean
+  }
+  /**
+   * Spread on an empty element after the last row; it triggers `onLoadMore`.
+   * Unmount it to pause infinite scroll.
+   */
+  getSentinelProps: () => {
+    ref: React.RefCallback<HTMLDivElement>
+    "aria-hidden": true
+  }
+  getItemProps: (
+    option: T,
+    overrides?: GenericSelectItemOverrides
+  ) => {
+    value: string
+    disabled: boolean
+    onSelect: () => void
+    "aria-checked"?: boolean
+  }
+}
+
+const ESTIMATED_ROW_HEIGHT = 32
+
+function isOptionObject<T extends Record<string, any>, K extends keyof T>(
+  entry: T | T[K],
+  valueKey: K
+): entry is T {
+  return typeof entry === "object" && entry !== null && valueKey in entry
+}
+
+function flattenOptions<T>(
+  options: T[],
+  getChildren: (option: T) => T[] | undefined,
+  seen = new Set<T>()
+): T[] {
+  return options.flatMap((option) => {
+    if (seen.has(option)) return []
+
+    seen.add(option)
+    const children = getChildren(option) ?? []
+    return [option, ...flattenOptions(children, getChildren, seen)]
+  })
+}
+
+/**
+ * Headless core of GenericSingleSelect and GenericMultiSelect: open state,
+ * debounced search, the data source, infinite scroll, the option cache and the
+ * selection. Use it with your own markup through the prop getters.
+ */
+export function useGenericSelect<
+  T extends Record<string, any>,
+  K extends keyof T = keyof T
+>({
+  options: optionsProp = [],
+  valueKey,
+  getOptionLabel,
+  multiple = false,
+  open,
+  onOpenChange,
+  value,
+  defaultValue = [],
+  onSelectionChange,
+  commitMode = "immediate",
+  isOptionEqual: isOptionEqualProp,
+  isOptionDisabled,
+  getChildren,
+  onSearchChange,
+  searchKeys,
+  filterOption,
+  loadOptions,
+  loadOptionsKey,
+  resolveValue,
+  onLoadMore: onLoadMoreProp,
+  hasNextPage: hasNextPageProp,
+  isFetchingNextPage: isFetchingNextPageProp,
+  isLoading: isLoadingProp,
+  error: errorProp,
+  nextPageError: nextPageErrorProp,
+  onRetry,
+  loadMoreThreshold = { rows: 3 },
+}: UseGenericSelectParams<T, K>): GenericSelect<T, K> {
+  const [internalOpen, setInternalOpen] = React.useState(false)
+  const isOpen = open ?? internalOpen
+  const isOpenRef = React.useRef(isOpen)
+  isOpenRef.current = isOpen
+  const [search, setSearch] = React.useState("")
+  const [activeItem, setActiveItem] = React.useState("")
+  const listRef = React.useRef<HTMLDivElement>(null)
+  const debouncedSearch = useDebounce(search, 300)
+
+  const asyncSource = useAsyncOptions({
+    loadOptions,
+    search: debouncedSearch,
+    enabled: isOpen,
+    cacheKey: loadOptionsKey,
+  })
+  const options = loadOptions ? asyncSource.options : optionsProp
+  const onLoadMore = loadOptions ? asyncSource.loadMore : onLoadMoreProp
+  const hasNextPage = loadOptions ? asyncSource.hasNextPage : !!hasNextPageProp
+  const isFetchingNextPage = loadOptions
+    ? asyncSource.isFetchingNextPage
+    : !!isFetchingNextPageProp
+  const isLoading = loadOptions ? asyncSource.isLoading : !!isLoadingProp
+  const serverSearch = !!onSearchChange || !!loadOptions
+
+  // Stubs standing in for selected keys that are not resolved yet
+  const stubsRef = React.useRef(new WeakSet<T>())
+  const isResolved = (option: T) => !stubsRef.current.has(option)
+  const getLabel = (option: T) =>
+    isResolved(option) ? getOptionLabel(option) : String(option[valueKey])
+
+  // Every option's texts are folded once, not on each search or render
+  const foldedTexts = React.useMemo(
+    () => new WeakMap<T, FoldedText[]>(),
+    [valueKey, searchKeys]
+  )
+  const getSearchTexts = (option: T) => {
+    let texts = foldedTexts.get(option)
+    if (!texts) {
+      texts = [
+        getLabel(option),
+        ...(searchKeys ?? [valueKey]).map((key) => String(option[key] ?? "")),
+      ].map(foldSearchText)
+      foldedTexts.set(option, texts)
+    }
+    return texts
+  }
+
+  const matchOptions = (candidates: T[]) =>
+    filterOptions(candidates, debouncedSearch, {
+      getSearchTexts,
+      filterOption,
+    })
+
+  // Without server-side search, fall back to local client-side filtering.
+  // Kept across renders, so moving the highlight does not filter again.
+  const filteredOptions = React.useMemo(
+    () => (serverSearch ? options : matchOptions(options)),
+    [options, debouncedSearch, searchKeys, filterOption, serverSearch]
+  )
+
+  const setOpen = React.useCallback(
+    (next: boolean) => {
+      // The trigger's own onClick and the popover's onOpenChange can both fire
+      // for the same click
+      if (isOpenRef.current === next) return
+      isOpenRef.current = next
+
+      setInternalOpen(next)
+      onOpenChange?.(next)
+    },
+    [onOpenChange]
+  )
+
+  // Closing resets the search, also when the parent closes a controlled popover
+  const wasOpenRef = React.useRef(isOpen)
+  React.useEffect(() => {
+    if (wasOpenRef.current && !isOpen) {
+      setSearch("")
+      onSearchChange?.("")
+    }
+    wasOpenRef.current = isOpen
+  }, [isOpen])
+
+  React.useEffect(() => {
+    if (onSearchChange && isOpen) {
+      onSearchChange(debouncedSearch)
+    }
+  }, [debouncedSearch, onSearchChange, isOpen])
+
+  const error = loadOptions ? asyncSource.error : errorProp ?? null
+  const nextPageError = loadOptions
+    ? asyncSource.nextPageError
+    : nextPageErrorProp ?? null
+  const thresholdPx =
+    "rows" in loadMoreThreshold
+      ? loadMoreThreshold.rows * ESTIMATED_ROW_HEIGHT
+      : loadMoreThreshold.px
+  // State rather than a ref, so the observer follows a remounted sentinel
+  const [sentinel, setSentinel] = React.useState<HTMLDivElement | null>(null)
+  const [isSentinelVisible, setIsSentinelVisible] = React.useState(false)
+
+  // Watch a sentinel at the bottom of the list instead of scroll positions, so
+  // touch and keyboard scrolling load pages too
+  React.useEffect(() => {
+    if (!isOpen || typeof IntersectionObserver === "undefined") return
+
+    let observer: IntersectionObserver | undefined
+    const timeout = setTimeout(() => {
+      const container = listRef.current
+      if (!container || !sentinel) return
+
+      observer = new IntersectionObserver(
+        ([entry]) => setIsSentinelVisible(entry.isIntersecting),
+        { root: container, rootMargin: `0px 0px ${thresholdPx}px 0px` }
+      )
+      observer.observe(sentinel)
+    }, 10) // short delay to ensure popover is visible
+
+    return () => {
+      clearTimeout(timeout)
+      observer?.disconnect()
+      setIsSentinelVisible(false)
+    }
+  }, [isOpen, thresholdPx, sentinel])
+
+  // Also re-runs after every page, so a first page that does not fill the
+  // viewport keeps loading until it does. Paused while a request has failed.
+  React.useEffect(() => {
+    if (
+      isSentinelVisible &&
+      onLoadMore &&
+      hasNextPage &&
+      !isLoading &&
+      !isFetchingNextPage &&
+      !error &&
+      !nextPageError
+    ) {
+      onLoadMore()
+    }
+  }, [
+    isSentinelVisible,
+    hasNextPage,
+    isLoading,
+    isFetchingNextPage,
+    error,
+    nextPageError,
+    options.length,
+  ])
+
+  // Scroll the list by hand: inside a modal popover the page scroll lock
+  // would otherwise swallow wheel events
+  React.useEffect(() => {
+    let cleanup: (() => void) | undefined
+    const timeout = setTimeout(() => {
+      const container = listRef.current
+      if (!container) return
+
+      const handleWheel = (e: WheelEvent) => {
+        const { scrollTop, scrollHeight, clientHeight } = container
+        const atBottom = scrollTop + clientHeight >= scrollHeight - 5
+        const atTop = scrollTop <= 5
+
+        if ((atBottom && e.deltaY > 0) || (atTop && e.deltaY < 0)) {
+          return // Let event bubble for parent scrolling
+        }
+
+        e.preventDefault()
+        container.scrollTop += e.deltaY
+      }
+
+      container.addEventListener("wheel", handleWheel, { passive: false })
+      cleanup = () => container.removeEventListener("wheel", handleWheel)
+    }, 10) // short delay to ensure popover is visible
+
+    return () => {
+      clearTimeout(timeout)
+      cleanup?.()
+    }
+  }, [isOpen])
+
+  const [internalSelected, setInternalSelected] =
+    React.useState<T[]>(defaultValue)
+  const isControlled = value !== undefined
+  const controlledEntries = value ?? []
+
+  const optionCache = useOptionCache({
+    options: getChildren ? flattenOptions(options, getChildren) : options,
+    valueKey,
+    values: [
+      ...controlledEntries.filter(
+        (entry): entry is T[K] => !isOptionObject(entry, valueKey)
+      ),
+      ...internalSelected
+        .filter((option) => !isResolved(option))
+        .map((option) => option[valueKey]),
+    ],
+    resolveValue,
+    isOptionEqual: isOptionEqualProp,
+  })
+  optionCache.remember(defaultValue)
+  optionCache.remember(internalSelected.filter(isResolved))
+
+  // The option seen for a key, or a stub holding only the key until then
+  const toOption = (entry: T[K]) => {
+    const cached = optionCache.getOption(entry)
+    if (cached) return cached
+
+    const stub = { [valueKey]: entry } as T
+    stubsRef.current.add(stub)
+    return stub
+  }
+
+  // In controlled mode the selection is derived from `value`. Keys are looked up
+  // in every option seen so far, so labels survive paging and a form reset().
+  // Unknown keys keep a stub until resolved, labelled with the key.
+  const committedOptions: T[] = isControlled
+    ? controlledEntries.map((entry) =>
+        isOptionObject(entry, valueKey) ? entry : toOption(entry)
+      )
+    : internalSelected.some((option) => !isResolved(option))
+      ? internalSelected.map((option) =>
+          isResolved(option) ? option : toOption(option[valueKey])
+        )
+      : internalSelected
+
+  // A draft starts from the committed selection on open; closing drops it
+  const [draft, setDraft] = React.useState<T[] | null>(null)
+  React.useEffect(() => {
+    setDraft(commitMode === "onApply" && isOpen ? committedOptions : null)
+  }, [isOpen, commitMode])
+
+  const selectedOptions = draft ?? committedOptions
+  const selectedValues = selectedOptions.map((option) => option[valueKey])
+
+  const isOptionEqual =
+    isOptionEqualProp ?? ((a: T, b: T) => a[valueKey] === b[valueKey])
+  const isSelected = (option: T) =>
+    selectedOptions.some((selected) => isOptionEqual(selected, option))
+
+  const commit = (selected: T[]) => {
+    setInternalSelected(selected)
+    onSelectionChange?.(selected)
+  }
+
+  const setSelection = (selected: T[]) => {
+    if (draft) {
+      setDraft(selected)
+    } else {
+      commit(selected)
+    }
+  }
+
+  const applyDraft = () => {
+    if (draft) commit(draft)
+    setOpen(false)
+  }
+
+  const toggleOption = (option: T) => {
+    const selected = isSelected(option)
+    if (!selected && isOptionDisabled?.(option)) return
+
+    if (!multiple) {
+      setSelection(selected ? [] : [option])
+      setOpen(false)
+      return
+    }
+
+    setSelection(
+      selected
+        ? selectedOptions.filter((o) => !isOptionEqual(o, option))
+        : [...selectedOptions, option]
+    )
+  }
+
+  const clear = () => setSelection([])
+
+  const { listId, activeDescendantId } = useListboxIds(
+    listRef,
+    activeItem,
+    isOpen
+  )
+
+  const getItemValue = (option: T) =>
+    `${getLabel(option)} ${String(option[valueKey])}`
+
+  return {
+    isOpen,
+    setOpen,
+    search,
+    setSearch,
+    debouncedSearch,
+    serverSearch,
+    options,
+    filteredOptions,
+    matchOptions,
+    hasNextPage,
+    isLoading,
+    isFetchingNextPage,
+    error,
+    nextPageError,
+    loadMore: () => onLoadMore?.(),
+    retry: () => {
+      if (loadOptions) {
+        asyncSource.retry()
+      } else if (onRetry) {
+        onRetry()
+      } else if (nextPageError) {
+        onLoadMore?.()
+      }
+    },
+    selectedOptions,
+    selectedValues,
+    committedOptions,
+    applyDraft,
+    isSelected,
+    isOptionEqual,
+    getLabel,
+    isResolved,
+    toOption,
+    setSelection,
+    toggleOption,
+    clear,
+    optionCache,
+    activeItem,
+    setActiveItem,
+    getItemValue,
+    listRef,
+    getTriggerProps: () => ({
+      role: "combobox",
+      "aria-expanded": isOpen,
+      "aria-haspopup": "listbox",
+      "aria-controls": listId,
+      "aria-activedescendant": activeDescendantId,
+      onClick: () => setOpen(!isOpen),
+    }),
+    getInputProps: () => ({
+      value: search,
+      onChange: (e) => setSearch(e.target.value),
+      role: "combobox",
+      "aria-expanded": isOpen,
+      "aria-autocomplete": "list",
+      "aria-controls": listId,
+      "aria-activedescendant": activeDescendantId,
+    }),
+    getListProps: () => ({
+      ref: listRef,
+      "aria-multiselectable": multiple || undefined,
+    }),
+    getSentinelProps: () => ({ ref: setSentinel, "aria-hidden": true }),
+    getItemProps: (option, overrides = {}) => ({
+      value: getItemValue(option),
+      disabled:
+        overrides.disabled ??
+        (isResolved(option) && !!isOptionDisabled?.(option)),
+      onSelect: overrides.onSelect ?? (() => toggleOption(option)),
+      "aria-checked": multiple ? isSelected(option) : undefined,
+    }),
+  }
+}
@@ -0,0 +1,42 @@
+import * as React from "react"
+
+export interface ListboxIds {
+  /** Id cmdk assigned to the listbox, for `aria-controls`. */
+  listId?: string
+  /** Id of the highlighted option, for `aria-activedescendant`. */
+  activeDescendantId?: string
+}
+
+/**
+ * cmdk generates the ids of its list and items internally, so they are read
+ * back from the DOM for the ARIA attributes of elements outside the Command.
+ */
+export function useListboxIds(
+  listRef: React.RefObject<HTMLElement | null>,
+  activeValue: string,
+  enabled: boolean
+): ListboxIds {
+  const [ids, setIds] = React.useState<ListboxIds>({})
+
+  React.useEffect(() => {
+    if (!enabled) {
+      setIds({})
+      return
+    }
+
+    const timeout = setTimeout(() => {
+      const list = listRef.current
+      const active = list?.querySelector<HTMLElement>(
+        '[cmdk-item][data-selected="true"]'
+      )
+      setIds({
+        listId: list?.id || undefined,
+        activeDescendantId: active?.id || undefined,
+      })
+    }, 10) // short delay to ensure popover is visible
+
+    return () => clearTimeout(timeout)
+  }, [listRef, activeValue, enabled])
+
+  return ids
+}
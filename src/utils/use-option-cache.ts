@@ -0,0 +1,101 @@
+import * as React from "react"
+
+export interface UseOptionCacheParams<
+  T extends Record<string, any>,
+  K extends keyof T = keyof T
+> {
+  options: T[]
+  valueKey: K
+  /** Values that must have a label; missing ones are passed to `resolveValue`. */
+  values: T[K][]
+  resolveValue?: (value: T[K]) => Promise<T>
+  /**
+   * Looks further than the exact key, e.g. to find the option 5 for the value
+   * "5". The value is compared as `{ [valueKey]: value }`.
+   */
+  isOptionEqual?: (a: T, b: T) => boolean
+}
+
+export interface OptionCache<
+  T extends Record<string, any>,
+  K extends keyof T = keyof T
+> {
+  getOption: (value: T[K]) => T | undefined
+  /** Adds options that are not cached yet; fresher `options` pages always win. */
+  remember: (options: T[]) => void
+}
+
+/**
+ * Keeps every option the component has seen, keyed by `valueKey`, so selected
+ * labels survive server-side search and paging. Values that were never seen are
+ * hydrated through `resolveValue` when one is provided.
+ */
+export function useOptionCache<
+  T extends Record<string, any>,
+  K extends keyof T = keyof T
+>({
+  options,
+  valueKey,
+  values,
+  resolveValue,
+  isOptionEqual,
+}: UseOptionCacheParams<T, K>): OptionCache<T, K> {
+  const cacheRef = React.useRef(new Map<T[K], T>())
+  const pendingRef = React.useRef(new Set<T[K]>())
+  const [, setVersion] = React.useState(0)
+
+  for (const option of options) {
+    cacheRef.current.set(option[valueKey], option)
+  }
+
+  const getOption = React.useCallback(
+    (value: T[K]) => {
+      const cached = cacheRef.current.get(value)
+      if (cached || !isOptionEqual) return cached
+
+      const probe = { [valueKey]: value } as T
+      for (const option of cacheRef.current.values()) {
+        if (isOptionEqual(option, probe)) return option
+      }
+      return undefined
+    },
+    [valueKey, isOptionEqual]
+  )
+
+  const remember = React.useCallback(
+    (seen: T[]) => {
+      for (const option of seen) {
+        if (!cacheRef.current.has(option[valueKey])) {
+          cacheRef.current.set(option[valueKey], option)
+        }
+      }
+    },
+    [valueKey]
+  )
+
+  const missing = values.filter(
+    (value) =>
+      value != null &&
+      !getOption(value) &&
+      !pendingRef.current.has(value)
+  )
+
+  React.useEffect(() => {
+    if (!resolveValue || missing.length === 0) return
+
+    for (const value of missing) {
+      pendingRef.current.add(value)
+      resolveValue(value)
+        .then((option) => {
+          cacheRef.current.set(value, option)
+          setVersion((v) => v + 1)
+        })
+        .catch(() => {
+          // Leave the value unresolved; the caller's fallback label is used.
+        })
+    }
+    // Re-run only when the set of missing values changes
+  }, [resolveValue, missing.map(String).join("\u0000")])
+
+  return { getOption, remember }
+}
@@ -0,0 +1,260 @@
+import * as React from "react"
+
+export interface UseOptionTreeParams<T extends Record<string, any>> {
+  /** Top-level options, or every node when `parentKey` is used. */
+  options: T[]
+  valueKey: keyof T
+  /** Nested children of an option; undefined for leaves. */
+  getChildren?: (option: T) => T[] | undefined
+  /** Key holding the parent's value, for flat lists of nodes. */
+  parentKey?: keyof T
+  /** Loads the children of a node that has none yet, when it is first expanded. */
+  loadChildren?: (option: T) => Promise<T[]>
+  /** Whether a node whose children are not loaded yet can be expanded. */
+  hasChildren?: (option: T) => boolean
+  onChildrenLoaded?: (parent: T, children: T[]) => void
+  /** Matches selected options to nodes. Defaults to comparing `valueKey`. */
+  isOptionEqual?: (a: T, b: T) => boolean
+}
+
+export type CheckState = "checked" | "unchecked" | "indeterminate"
+
+export interface TreeRow<T> {
+  option: T
+  /** 0 for top-level nodes. */
+  depth: number
+}
+
+export interface OptionTree<T> {
+  /** True when `getChildren` or `parentKey` is set. */
+  enabled: boolean
+  /** Every known node, depth-first. */
+  nodes: T[]
+  getChildren: (option: T) => T[] | undefined
+  getDescendants: (option: T) => T[]
+  isExpandable: (option: T) => boolean
+  isExpanded: (option: T) => boolean
+  isLoadingChildren: (option: T) => boolean
+  setExpanded: (option: T, expanded: boolean) => void
+  /**
+   * Rows of the expanded nodes. With `matches`, only the matching nodes and
+   * their ancestors are listed, expanded along the way.
+   */
+  getRows: (matches?: T[]) => TreeRow<T>[]
+  /** Parent states follow their leaves; a parent without known children follows itself. */
+  getCheckState: (option: T, isSelected: (option: T) => boolean) => CheckState
+  /**
+   * Makes parents follow their children: a parent is selected exactly when all
+   * of its children are, or never when `includeParents` is false.
+   */
+  normalizeSelection: (selected: T[], includeParents: boolean) => T[]
+}
+
+/**
+ * Hierarchy behind the tree mode of GenericMultiSelect: expansion, lazily
+ * loaded children and the parent/child rules of cascading selection.
+ */
+export function useOptionTree<T extends Record<string, any>>({
+  options,
+  valueKey,
+  getChildren,
+  parentKey,
+  loadChildren,
+  hasChildren,
+  onChildrenLoaded,
+  isOptionEqual = (a, b) => a[valueKey] === b[valueKey],
+}: UseOptionTreeParams<T>): OptionTree<T> {
+  type Key = T[keyof T]
+  const enabled = !!getChildren || parentKey !== undefined
+
+  const [expandedKeys, setExpandedKeys] = React.useState<Set<Key>>(
+    () => new Set()
+  )
+  const [loadedChildren, setLoadedChildren] = React.useState<Map<Key, T[]>>(
+    () => new Map()
+  )
+  const [loadingKeys, setLoadingKeys] = React.useState<Set<Key>>(
+    () => new Set()
+  )
+  const onChildrenLoadedRef = React.useRef(onChildrenLoaded)
+  onChildrenLoadedRef.current = onChildrenLoaded
+
+  // With parentKey, nodes whose parent is not in the list are treated as roots
+  const childrenByParent = new Map<Key, T[]>()
+  let roots = options
+  if (parentKey !== undefined) {
+    const keys = new Set(options.map((option) => option[valueKey]))
+    roots = []
+    for (const option of options) {
+      const parent = option[parentKey] as Key
+      if (parent == null || !keys.has(parent)) {
+        roots.push(option)
+      } else {
+        childrenByParent.set(parent, [
+          ...(childrenByParent.get(parent) ?? []),
+          option,
+        ])
+      }
+    }
+  }
+
+  // undefined means "not loaded yet", [] means "leaf"
+  const getNodeChildren = (option: T): T[] | undefined => {
+    const key = option[valueKey]
+    const own = getChildren
+      ? getChildren(option)
+      : childrenByParent.get(key)
+    return own ?? loadedChildren.get(key) ?? (loadChildren ? undefined : [])
+  }
+
+  const nodes: T[] = []
+  const parentOf = new Map<Key, T>()
+  const visited = new Set<Key>()
+  const visit = (option: T, parent?: T) => {
+    const key = option[valueKey]
+    // Guards against cycles and nodes listed under two parents
+    if (visited.has(key)) return
+
+    visited.add(key)
+    nodes.push(option)
+    if (parent) parentOf.set(key, parent)
+    for (const child of getNodeChildren(option) ?? []) visit(child, option)
+  }
+  if (enabled) roots.forEach((root) => visit(root))
+
+  // Only the children first seen under this node, so cycles end here too
+  const getTreeChildren = (option: T) =>
+    (getNodeChildren(option) ?? []).filter(
+      (child) => parentOf.get(child[valueKey]) === option
+    )
+
+  const getDescendants = (option: T): T[] =>
+    getTreeChildren(option).flatMap((child) => [
+      child,
+      ...getDescendants(child),
+    ])
+
+  const isExpandable = (option: T) => {
+    const children = getNodeChildren(option)
+    return children ? children.length > 0 : hasChildren?.(option) ?? true
+  }
+
+  const setExpanded = (option: T, expanded: boolean) => {
+    const key = option[valueKey]
+    setExpandedKeys((current) => {
+      const next = new Set(current)
+      if (expanded) {
+        next.add(key)
+      } else {
+        next.delete(key)
+      }
+      return next
+    })
+
+    if (!expanded || !loadChildren || getNodeChildren(option)) return
+    if (loadingKeys.has(key)) return
+
+    setLoadingKeys((current) => new Set(current).add(key))
+    loadChildren(option)
+      .then((children) => {
+        setLoadedChildren((current) => new Map(current).set(key, children))
+        onChildrenLoadedRef.current?.(option, children)
+      })
+      .catch(() => {
+        // Collapse again, so expanding retries the request
+        setExpandedKeys((current) => {
+          const next = new Set(current)
+          next.delete(key)
+          return next
+        })
+      })
+      .finally(() => {
+        setLoadingKeys((current) => {
+          const next = new Set(current)
+          next.delete(key)
+          return next
+        })
+      })
+  }
+
+  const getRows = (matches?: T[]) => {
+    const rows: TreeRow<T>[] = []
+    const shown = new Set<Key>()
+    const onPath = new Set<Key>()
+    for (const match of matches ?? []) {
+      shown.add(match[valueKey])
+      for (
+        let parent = parentOf.get(match[valueKey]);
+        parent;
+        parent = parentOf.get(parent[valueKey])
+      ) {
+        shown.add(parent[valueKey])
+        onPath.add(parent[valueKey])
+      }
+    }
+
+    const walk = (option: T, depth: number) => {
+      const key = option[valueKey]
+      if (matches && !shown.has(key)) return
+
+      rows.push({ option, depth })
+      const open = matches ? onPath.has(key) : expandedKeys.has(key)
+      if (!open) return
+
+      for (const child of getTreeChildren(option)) walk(child, depth + 1)
+    }
+    roots.forEach((root) => walk(root, 0))
+    return rows
+  }
+
+  const getCheckState = (
+    option: T,
+    isSelected: (option: T) => boolean
+  ): CheckState => {
+    const leaves = getDescendants(option).filter(
+      (node) => !getNodeChildren(node)?.length
+    )
+    if (leaves.length === 0) {
+      return isSelected(option) ? "checked" : "unchecked"
+    }
+
+    const selectedCount = leaves.filter(isSelected).length
+    if (selectedCount === leaves.length) return "checked"
+    if (selectedCount > 0) return "indeterminate"
+    return isSelected(option) ? "checked" : "unchecked"
+  }
+
+  const normalizeSelection = (selected: T[], includeParents: boolean) => {
+    let result = selected
+    const isIncluded = (node: T) =>
+      result.some((option) => isOptionEqual(option, node))
+
+    // Deepest nodes first, so every parent sees its children's final state
+    for (const node of [...nodes].reverse()) {
+      const children = getNodeChildren(node)
+      if (!children?.length) continue
+
+      if (includeParents && children.every(isIncluded)) {
+        if (!isIncluded(node)) result = [...result, node]
+      } else {
+        result = result.filter((option) => !isOptionEqual(option, node))
+      }
+    }
+
+    return result
+  }
+
+  return {
+    enabled,
+    nodes,
+    getChildren: getNodeChildren,
+    getDescendants,
+    isExpandable,
+    isExpanded: (option) => expandedKeys.has(option[valueKey]),
+    isLoadingChildren: (option) => loadingKeys.has(option[valueKey]),
+    setExpanded,
+    getRows,
+    getCheckState,
+    normalizeSelection,
+  }
+}
@@ -0,0 +1,45 @@
+import * as React from "react"
+
+export type Presentation = "popover" | "drawer" | "auto"
+
+/**
+ * The parts of the shadcn drawer (`@/components/ui/drawer`). They are passed
+ * in, so apps that only use the popover do not need the drawer and vaul.
+ */
+export interface DrawerComponents {
+  Drawer: React.ComponentType<any>
+  DrawerContent: React.ComponentType<any>
+  DrawerHeader: React.ComponentType<any>
+  DrawerTitle: React.ComponentType<any>
+  DrawerFooter: React.ComponentType<any>
+}
+
+// Below Tailwind's `sm` breakpoint
+const SMALL_SCREEN_QUERY = "(max-width: 639px)"
+
+/** False on the server and during the first render, so hydration matches. */
+export function useMediaQuery(query: string): boolean {
+  const [matches, setMatches] = React.useState(false)
+
+  React.useEffect(() => {
+    if (typeof window === "undefined" || !window.matchMedia) return
+
+    const media = window.matchMedia(query)
+    const handleChange = () => setMatches(media.matches)
+    handleChange()
+    media.addEventListener("change", handleChange)
+    return () => media.removeEventListener("change", handleChange)
+  }, [query])
+
+  return matches
+}
+
+/** Resolves "auto" to the drawer on small screens and the popover elsewhere. */
+export function usePresentation(
+  presentation: Presentation = "popover"
+): Exclude<Presentation, "auto"> {
+  const isSmallScreen = useMediaQuery(SMALL_SCREEN_QUERY)
+  if (presentation !== "auto") return presentation
+
+  return isSmallScreen ? "drawer" : "popover"
+}
@@ -0,0 +1,151 @@
+import * as React from "react"
+
+/**
+ * Where recent and favourite options are kept. A subset of the Web Storage
+ * API, so `localStorage` and `sessionStorage` work as they are.
+ */
+export interface OptionStorage {
+  getItem: (key: string) => string | null
+  setItem: (key: string, value: string) => void
+}
+
+/** Storage that lives as long as the page, e.g. for tests. */
+export function createMemoryStorage(): OptionStorage {
+  const items = new Map<string, string>()
+  return {
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => {
+      items.set(key, value)
+    },
+  }
+}
+
+function getLocalStorage(): OptionStorage | undefined {
+  try {
+    return typeof window === "undefined" ? undefined : window.localStorage
+  } catch {
+    // Access is denied when the user blocks site data
+    return undefined
+  }
+}
+
+interface StoredOptions<T> {
+  recent: T[]
+  favorites: T[]
+}
+
+function readOptions<T>(
+  storage: OptionStorage | undefined,
+  key: string
+): StoredOptions<T> {
+  try {
+    const stored = JSON.parse(storage?.getItem(key) ?? "null")
+    return {
+      recent: Array.isArray(stored?.recent) ? stored.recent : [],
+      favorites: Array.isArray(stored?.favorites) ? stored.favorites : [],
+    }
+  } catch {
+    return { recent: [], favorites: [] }
+  }
+}
+
+export interface UseRecentOptionsParams<T> {
+  /** Storage key of this select; nothing is recorded without one. */
+  storageKey?: string
+  /** Defaults to `localStorage`. */
+  storage?: OptionStorage
+  isOptionEqual: (a: T, b: T) => boolean
+  /** Number of recent options kept. */
+  limit?: number
+}
+
+export interface RecentOptions<T> {
+  enabled: boolean
+  /** Favourites first, then the latest selections that are not favourites. */
+  options: T[]
+  /** Records options that were just selected. */
+  remember: (selected: T[]) => void
+  isFavorite: (option: T) => boolean
+  toggleFavorite: (option: T) => void
+}
+
+/**
+ * Recently selected and favourite options of a select, persisted as whole
+ * option objects so they render without being in the current page. Options
+ * must survive `JSON.stringify`.
+ */
+export function useRecentOptions<T>({
+  storageKey,
+  storage,
+  isOptionEqual,
+  limit = 5,
+}: UseRecentOptionsParams<T>): RecentOptions<T> {
+  const [stored, setStored] = React.useState<StoredOptions<T>>({
+    recent: [],
+    favorites: [],
+  })
+
+  // Adapters are often passed inline; only a new key triggers a read
+  const storageRef = React.useRef(storage)
+  storageRef.current = storage
+
+  // Read after mount, so server and client render the same markup first
+  React.useEffect(() => {
+    if (!storageKey) return
+
+    const target = storageRef.current ?? getLocalStorage()
+    setStored(readOptions(target, storageKey))
+  }, [storageKey])
+
+  // Changes start from what is stored now, so selects sharing a key keep each
+  // other's history
+  const update = (change: (prev: StoredOptions<T>) => StoredOptions<T>) => {
+    const target = storageKey ? storageRef.current ?? getLocalStorage() : null
+    if (!storageKey || !target) {
+      setStored(change)
+      return
+    }
+
+    const next = change(readOptions(target, storageKey))
+    setStored(next)
+    try {
+      target.setItem(storageKey, JSON.stringify(next))
+    } catch {
+      // Full or unavailable storage only loses the history
+    }
+  }
+
+  const includes = (list: T[], option: T) =>
+    list.some((entry) => isOptionEqual(entry, option))
+
+  const isFavorite = (option: T) => includes(stored.favorites, option)
+
+  return {
+    enabled: !!storageKey,
+    options: [
+      ...stored.favorites,
+      ...stored.recent.filter((option) => !isFavorite(option)),
+    ],
+    remember: (selected) => {
+      if (!storageKey || selected.length === 0) return
+
+      const latest = [...selected].reverse()
+      update((prev) => ({
+        ...prev,
+        recent: [
+          ...latest,
+          ...prev.recent.filter((option) => !includes(latest, option)),
+        ].slice(0, limit),
+      }))
+    },
+    isFavorite,
+    toggleFavorite: (option) => {
+      update((prev) => ({
+        ...prev,
+        favorites: includes(prev.favorites, option)
+          ? prev.favorites.filter((entry) => !isOptionEqual(entry, option))
+          : [...prev.favorites, option],
+      }))
+    },
+  }
+}
@@ -0,0 +1,134 @@
+import * as React from "react"
+
+export interface UseSortableParams {
+  /** Called once per drop with the item's old and new index. */
+  onMove: (from: number, to: number) => void
+  enabled: boolean
+}
+
+export interface SortableItemProps {
+  ref: (node: HTMLElement | null) => void
+  onPointerDown: (e: React.PointerEvent<HTMLElement>) => void
+  onPointerMove: (e: React.PointerEvent<HTMLElement>) => void
+  onPointerUp: (e: React.PointerEvent<HTMLElement>) => void
+  onPointerCancel: () => void
+  onClickCapture: (e: React.MouseEvent<HTMLElement>) => void
+  style: React.CSSProperties
+}
+
+export interface Sortable {
+  /** Index of the item being dragged, null when no drag is in progress. */
+  dragIndex: number | null
+  /** Index the dragged item would be dropped at. */
+  overIndex: number | null
+  getItemProps: (index: number) => SortableItemProps
+  /** For elements that can be dropped on but not dragged. */
+  getTargetProps: (index: number) => Pick<SortableItemProps, "ref">
+}
+
+// Pointer movement before a press turns into a drag, so plain clicks still work
+const DRAG_THRESHOLD = 4
+
+/**
+ * Pointer drag-and-drop reordering for a wrapping row of items such as badges.
+ * Built on pointer events, so it works for mouse, pen and touch alike.
+ */
+export function useSortable({ onMove, enabled }: UseSortableParams): Sortable {
+  const itemsRef = React.useRef<(HTMLElement | null)[]>([])
+  const pressRef = React.useRef<{ index: number; x: number; y: number }>(
+    undefined
+  )
+  const justDroppedRef = React.useRef(false)
+  const [dragIndex, setDragIndex] = React.useState<number | null>(null)
+  const [overIndex, setOverIndex] = React.useState<number | null>(null)
+
+  // The item under the pointer, or the one whose center is closest to it when
+  // the pointer is between items
+  const findIndexAt = (x: number, y: number) => {
+    let closest = -1
+    let closestDistance = Infinity
+    itemsRef.current.forEach((item, index) => {
+      if (!item) return
+
+      const rect = item.getBoundingClientRect()
+      const distance = Math.hypot(
+        x - (rect.left + rect.width / 2),
+        y - (rect.top + rect.height / 2)
+      )
+      if (distance < closestDistance) {
+        closest = index
+        closestDistance = distance
+      }
+    })
+    return closest
+  }
+
+  const reset = () => {
+    pressRef.current = undefined
+    setDragIndex(null)
+    setOverIndex(null)
+  }
+
+  const setItemRef = (index: number) => (node: HTMLElement | null) => {
+    itemsRef.current[index] = node
+  }
+
+  return {
+    dragIndex,
+    overIndex,
+    getTargetProps: (index) => ({ ref: setItemRef(index) }),
+    getItemProps: (index) => ({
+      ref: setItemRef(index),
+      onPointerDown: (e) => {
+        if (!enabled || e.button !== 0) return
+
+        pressRef.current = { index, x: e.clientX, y: e.clientY }
+        justDroppedRef.current = false
+      },
+      onPointerMove: (e) => {
+        const press = pressRef.current
+        if (!press) return
+        // Released outside the item before the drag started
+        if (e.buttons === 0) {
+          reset()
+          return
+        }
+
+        if (
+          dragIndex === null &&
+          Math.hypot(e.clientX - press.x, e.clientY - press.y) < DRAG_THRESHOLD
+        ) {
+          return
+        }
+
+        // Captured only once dragging, so clicks on the item's own buttons work
+        if (dragIndex === null) e.currentTarget.setPointerCapture(e.pointerId)
+        setDragIndex(press.index)
+        const target = findIndexAt(e.clientX, e.clientY)
+        if (target !== -1) setOverIndex(target)
+      },
+      onPointerUp: (e) => {
+        if (dragIndex !== null) {
+          justDroppedRef.current = true
+          if (overIndex !== null && overIndex !== dragIndex) {
+            onMove(dragIndex, overIndex)
+          }
+        }
+        if (e.currentTarget.hasPointerCapture(e.pointerId)) {
+          e.currentTarget.releasePointerCapture(e.pointerId)
+        }
+        reset()
+      },
+      onPointerCancel: reset,
+      // A drop must not also count as a click on the trigger
+      onClickCapture: (e) => {
+        if (!justDroppedRef.current) return
+
+        justDroppedRef.current = false
+        e.preventDefault()
+        e.stopPropagation()
+      },
+      style: enabled ? { touchAction: "none", cursor: "grab" } : {},
+    }),
+  }
+}
@@ -0,0 +1,187 @@
+import * as React from "react"
+
+export interface UseVirtualListParams {
+  count: number
+  scrollRef: React.RefObject<HTMLElement | null>
+  /** Turns windowing on; when false every row is returned. */
+  enabled: boolean
+  /** Fixed row height in px. Rows are measured when omitted. */
+  itemHeight?: number
+  estimatedItemHeight?: number
+  overscan?: number
+}
+
+export interface VirtualItem {
+  index: number
+  start: number
+  size: number
+}
+
+export interface VirtualList {
+  items: VirtualItem[]
+  paddingTop: number
+  paddingBottom: number
+  /** Callback ref that records the rendered height of a row. */
+  measureRef: (index: number) => (element: HTMLElement | null) => void
+  /**
+   * Callback ref for the top spacer, rendered even when `paddingTop` is 0. Its
+   * position tells how much other content sits above the rows.
+   */
+  spacerRef: (element: HTMLElement | null) => void
+  scrollToIndex: (index: number) => void
+}
+
+/**
+ * Windowed rendering for long option lists. Rows outside the viewport are
+ * replaced by top and bottom spacers so the scroll container keeps its full
+ * height, which keeps the existing bottom detection for `onLoadMore` working.
+ */
+export function useVirtualList({
+  count,
+  scrollRef,
+  enabled,
+  itemHeight,
+  estimatedItemHeight = 32,
+  overscan = 8,
+}: UseVirtualListParams): VirtualList {
+  const sizesRef = React.useRef(new Map<number, number>())
+  const [, setMeasureVersion] = React.useState(0)
+  const spacerElementRef = React.useRef<HTMLElement | null>(null)
+  const [viewport, setViewport] = React.useState({
+    scrollTop: 0,
+    height: 300,
+    listTop: 0,
+  })
+
+  // Offset of the first row within the scrolled content, e.g. below select
+  // all and the recent options
+  const measureListTop = () => {
+    const container = scrollRef.current
+    const spacer = spacerElementRef.current
+    if (!container || !spacer) return 0
+
+    return (
+      spacer.getBoundingClientRect().top -
+      container.getBoundingClientRect().top +
+      container.scrollTop
+    )
+  }
+
+  React.useEffect(() => {
+    if (!enabled) return
+
+    let cleanup: (() => void) | undefined
+    const timeout = setTimeout(() => {
+      const container = scrollRef.current
+      if (!container) return
+
+      const update = () =>
+        setViewport({
+          scrollTop: container.scrollTop,
+          height: container.clientHeight,
+          listTop: measureListTop(),
+        })
+
+      update()
+      container.addEventListener("scroll", update, { passive: true })
+      const observer =
+        typeof ResizeObserver !== "undefined"
+          ? new ResizeObserver(update)
+          : undefined
+      observer?.observe(container)
+
+      cleanup = () => {
+        container.removeEventListener("scroll", update)
+        observer?.disconnect()
+      }
+    }, 10) // short delay to ensure popover is visible
+
+    return () => {
+      clearTimeout(timeout)
+      cleanup?.()
+    }
+  }, [enabled, scrollRef])
+
+  // The content above the rows can change without a scroll
+  React.useEffect(() => {
+    if (!enabled) return
+
+    const listTop = measureListTop()
+    setViewport((current) =>
+      current.listTop === listTop ? current : { ...current, listTop }
+    )
+  })
+
+  const getSize = (index: number) =>
+    itemHeight ?? sizesRef.current.get(index) ?? estimatedItemHeight
+
+  const offsets: number[] = new Array(count + 1)
+  offsets[0] = 0
+  for (let i = 0; i < count; i++) {
+    offsets[i + 1] = offsets[i] + getSize(i)
+  }
+  const totalSize = offsets[count]
+
+  const measureRef = (index: number) => (element: HTMLElement | null) => {
+    if (!element || itemHeight !== undefined) return
+
+    const height = element.getBoundingClientRect().height
+    if (height > 0 && sizesRef.current.get(index) !== height) {
+      sizesRef.current.set(index, height)
+      setMeasureVersion((v) => v + 1)
+    }
+  }
+
+  const spacerRef = (element: HTMLElement | null) => {
+    spacerElementRef.current = element
+  }
+
+  const scrollToIndex = (index: number) => {
+    const container = scrollRef.current
+    if (!container || index < 0 || index >= count) return
+
+    container.scrollTop =
+      measureListTop() +
+      offsets[index] -
+      container.clientHeight / 2 +
+      getSize(index) / 2
+  }
+
+  if (!enabled) {
+    return {
+      items: Array.from({ length: count }, (_, index) => ({
+        index,
+        start: offsets[index],
+        size: getSize(index),
+      })),
+      paddingTop: 0,
+      paddingBottom: 0,
+      measureRef,
+      spacerRef,
+      scrollToIndex,
+    }
+  }
+
+  const scrollTop = viewport.scrollTop - viewport.listTop
+  const viewportEnd = scrollTop + viewport.height
+  let first = 0
+  while (first < count && offsets[first + 1] <= scrollTop) first++
+  let last = first
+  while (last < count && offsets[last] < viewportEnd) last++
+
+  const start = Math.max(0, first - overscan)
+  const end = Math.min(count, last + overscan)
+  const items: VirtualItem[] = []
+  for (let index = start; index < end; index++) {
+    items.push({ index, start: offsets[index], size: getSize(index) })
+  }
+
+  return {
+    items,
+    paddingTop: offsets[start],
+    paddingBottom: totalSize - offsets[end],
+    measureRef,
+    spacerRef,
+    scrollToIndex,
+  }
+}